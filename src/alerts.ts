@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import { formatTokens } from "./modelUsage";
+
+/**
+ * Which crossings should raise an alert.
+ */
+export interface AlertSettings {
+  enabled: boolean;
+  remainingRequests: number[]; // alert when remaining requests drop below each of these counts
+  spendPercentages: number[]; // alert when spend passes each of these percentages of the hard limit
+  tokenPercentages: number[]; // alert when token usage passes each of these percentages of the token limit
+  budgetForecast: boolean; // alert when the forecast puts spend above the hard limit
+}
+
+/**
+ * The usage figures crossings are detected from.
+ */
+export interface CrossingInput {
+  remainingRequests: number;
+  totalRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  startOfMonth: string;
+  teamId?: number;
+  usedTokens?: number;
+  maxTokens?: number; // token limit of the status bar model, if it has one
+  projectedSpendCents?: number; // forecast spend at the end of the cycle
+}
+
+/**
+ * Persisted record of the crossings already notified in the current cycle.
+ * Kept per team, so switching teams back and forth does not re-send alerts.
+ */
+export interface AlertState {
+  fired: Record<string, string[]>; // fired IDs by `${startOfMonth}|${teamId}`
+}
+
+/**
+ * A detected crossing to notify the user about.
+ */
+export interface ThresholdAlert {
+  id: string;
+  message: string;
+}
+
+const ALERT_STATE_KEY = "thresholdAlertState";
+
+/**
+ * Detects threshold crossings that have not been notified yet in the current cycle.
+ * When several thresholds of the same kind are crossed at once, only the most
+ * severe one is reported and the others are marked as fired.
+ * @param input Current usage figures
+ * @param settings Which crossings to alert on
+ * @param previous State persisted after the previous check
+ * @returns The alerts to send and the state to persist
+ */
+export function detectCrossings(
+  input: CrossingInput,
+  settings: AlertSettings,
+  previous: AlertState | undefined,
+): { alerts: ThresholdAlert[]; state: AlertState } {
+  const cycle = `${input.startOfMonth}|${input.teamId ?? ""}`;
+  const fired = new Set(previous?.fired[cycle] ?? []);
+  const alerts: ThresholdAlert[] = [];
+
+  if (!settings.enabled) {
+    return {
+      alerts,
+      state: recordFired(previous, input.startOfMonth, cycle, fired),
+    };
+  }
+
+  // Requests exhausted: usage-based billing begins
+  if (input.remainingRequests <= 0) {
+    if (!fired.has("exhausted")) {
+      alerts.push({
+        id: "exhausted",
+        message:
+          "Cursor Usage: Fast-premium requests exhausted. Usage-based billing has started.",
+      });
+    }
+    fired.add("exhausted");
+  }
+
+  // Remaining requests below N, lowest threshold wins
+  const crossedCounts = [...settings.remainingRequests]
+    .sort((a, b) => a - b)
+    .filter((count) => input.remainingRequests < count);
+  const newCounts = crossedCounts.filter(
+    (count) => !fired.has(`remaining:${count}`),
+  );
+  if (newCounts.length > 0 && input.remainingRequests > 0) {
+    alerts.push({
+      id: `remaining:${newCounts[0]}`,
+      message: `Cursor Usage: Fewer than ${newCounts[0]} fast-premium requests remaining (${input.remainingRequests}/${input.totalRequests} left).`,
+    });
+  }
+  crossedCounts.forEach((count) => fired.add(`remaining:${count}`));
+
+  // Spend passing a percentage of the hard limit, highest threshold wins
+  if (
+    input.spendCents !== undefined &&
+    input.hardLimitDollars !== undefined &&
+    input.hardLimitDollars > 0
+  ) {
+    const spendDollars = input.spendCents / 100;
+    const spendPercentage = (spendDollars / input.hardLimitDollars) * 100;
+    const crossedPercentages = [...settings.spendPercentages]
+      .sort((a, b) => b - a)
+      .filter((percentage) => spendPercentage >= percentage);
+    const newPercentages = crossedPercentages.filter(
+      (percentage) => !fired.has(`spend:${percentage}`),
+    );
+    if (newPercentages.length > 0) {
+      alerts.push({
+        id: `spend:${newPercentages[0]}`,
+        message: `Cursor Usage: Spending reached ${newPercentages[0]}% of your $${input.hardLimitDollars.toFixed(2)} limit ($${spendDollars.toFixed(2)} spent).`,
+      });
+    }
+    crossedPercentages.forEach((percentage) =>
+      fired.add(`spend:${percentage}`),
+    );
+  }
+
+  // Token usage passing a percentage of the token limit, highest threshold wins
+  if (
+    input.usedTokens !== undefined &&
+    input.maxTokens !== undefined &&
+    input.maxTokens > 0
+  ) {
+    const tokenPercentage = (input.usedTokens / input.maxTokens) * 100;
+    const crossedPercentages = [...settings.tokenPercentages]
+      .sort((a, b) => b - a)
+      .filter((percentage) => tokenPercentage >= percentage);
+    const newPercentages = crossedPercentages.filter(
+      (percentage) => !fired.has(`tokens:${percentage}`),
+    );
+    if (newPercentages.length > 0) {
+      alerts.push({
+        id: `tokens:${newPercentages[0]}`,
+        message: `Cursor Usage: Token usage reached ${newPercentages[0]}% of your ${formatTokens(input.maxTokens)}-token limit (${formatTokens(input.usedTokens)} used).`,
+      });
+    }
+    crossedPercentages.forEach((percentage) =>
+      fired.add(`tokens:${percentage}`),
+    );
+  }
+
+  // Forecast putting spend above the hard limit before the reset
+  if (
+    settings.budgetForecast &&
+    input.projectedSpendCents !== undefined &&
+    input.hardLimitDollars !== undefined &&
+    input.projectedSpendCents > input.hardLimitDollars * 100 &&
+    !fired.has("forecast:overBudget")
+  ) {
+    alerts.push({
+      id: "forecast:overBudget",
+      message: `Cursor Usage: At your current pace, spending is on track to reach $${(input.projectedSpendCents / 100).toFixed(2)} by the reset, above your $${input.hardLimitDollars.toFixed(2)} limit.`,
+    });
+    fired.add("forecast:overBudget");
+  }
+
+  return {
+    alerts,
+    state: recordFired(previous, input.startOfMonth, cycle, fired),
+  };
+}
+
+/**
+ * Builds the state to persist: the fired IDs of this cycle and team, plus those
+ * of other teams, dropping every entry from a cycle before the current one.
+ */
+function recordFired(
+  previous: AlertState | undefined,
+  startOfMonth: string,
+  cycle: string,
+  fired: Set<string>,
+): AlertState {
+  const cycleStart = Date.parse(startOfMonth);
+  const kept = Object.entries(previous?.fired ?? {}).filter(
+    ([key]) => Date.parse(key.split("|")[0]) >= cycleStart,
+  );
+  return {
+    fired: { ...Object.fromEntries(kept), [cycle]: Array.from(fired) },
+  };
+}
+
+/**
+ * Detects new threshold crossings and records them in globalState so each
+ * crossing is only reported once per billing cycle.
+ * @param context VS Code extension context
+ * @param input Current usage figures
+ * @param settings Which crossings to alert on
+ * @returns The alerts that should be sent now
+ */
+export async function checkThresholdCrossings(
+  context: vscode.ExtensionContext,
+  input: CrossingInput,
+  settings: AlertSettings,
+): Promise<ThresholdAlert[]> {
+  const previous = context.globalState.get<AlertState>(ALERT_STATE_KEY);
+  const { alerts, state } = detectCrossings(input, settings, previous);
+  await context.globalState.update(ALERT_STATE_KEY, state);
+  return alerts;
+}
@@ -1,125 +1,219 @@
-import * as https from "https";
 import {
   TeamsResponse,
   TeamDetails,
+  TeamHardLimit,
   SpendData,
   UserMeResponse,
   UserUsageResponse,
 } from "./models";
+import { Transport, createNodeTransport } from "./transport";
+import {
+  MalformedResponseError,
+  RequestCancelledError,
+  SchemaValidationError,
+  TimeoutError,
+  classifyError,
+  errorFromResponse,
+} from "./errors";
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  getRetryDelay,
+  resolveRetryPolicy,
+} from "./retryPolicy";
+import {
+  Validator,
+  spendDataSchema,
+  teamDetailsSchema,
+  teamHardLimitSchema,
+  teamsSchema,
+  userMeSchema,
+  userUsageSchema,
+  validate,
+} from "./validation";
+import * as logger from "./logger";
 
-const BASE_URL = "https://cursor.com/api";
+export const DEFAULT_BASE_URL = "https://cursor.com/api";
 const TIMEOUT = 30000; // 30-second timeout for all requests
 
+let baseUrl = DEFAULT_BASE_URL;
+let transport: Transport = createNodeTransport();
+
+/**
+ * Configures where and how API requests are sent.
+ * @param options.baseUrl Base URL of the Cursor API (e.g. a local mock server)
+ * @param options.transport Transport used to send requests (e.g. one that goes through a proxy)
+ */
+export function configureApi(options: {
+  baseUrl?: string;
+  transport?: Transport;
+}): void {
+  if (options.baseUrl !== undefined) {
+    baseUrl = options.baseUrl.replace(/\/+$/, "");
+  }
+  if (options.transport !== undefined) {
+    transport = options.transport;
+  }
+}
+
 /**
  * Higher-order function that wraps async API functions with retry logic.
- * @param fn The async function to wrap with retries
- * @param maxRetries Maximum number of retry attempts (default: 2 for 3 total attempts)
- * @param delayMs Delay between retries in milliseconds (default: 100ms)
- * @param timeoutMs Timeout per attempt in milliseconds (default: 10000ms)
- * @returns Promise that resolves with the function result or rejects after all retries
+ * Retries back off exponentially with jitter, honour Retry-After, and errors the
+ * policy marks as non-retryable (e.g. an expired session) fail immediately.
+ * A cancelled request is not retried, and cancelling also ends the wait before a retry.
+ * An attempt that runs out of time is aborted before the next one starts, so
+ * a slow server never sees overlapping requests.
+ * @param fn The async function to wrap with retries, given the signal that aborts the attempt
+ * @param policy How to retry (see retryPolicy.ts)
+ * @param signal Cancels the call, including pending retries (optional)
+ * @returns Promise that resolves with the function result or rejects with the last error
  */
 async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 2,
-  delayMs: number = 100,
-  timeoutMs: number = 10000,
+  fn: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
 ): Promise<T> {
-  let lastError: Error | undefined;
-
-  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+  for (let attempt = 1; ; attempt++) {
+    const attemptController = new AbortController();
+    const cancelAttempt = () => attemptController.abort();
+    if (signal?.aborted) {
+      cancelAttempt();
+    }
+    signal?.addEventListener("abort", cancelAttempt, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      cancelAttempt();
+    }, policy.attemptTimeoutMs);
     try {
-      return await Promise.race([
-        fn(),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error("API timeout")), timeoutMs),
-        ),
-      ]);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.warn(
-        `[Cursor Usage] API attempt ${attempt} failed: ${lastError.message}. Retrying in ${delayMs}ms...`,
-      );
-
-      if (attempt < maxRetries + 1) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return await fn(attemptController.signal);
+    } catch (caught) {
+      // The attempt was aborted by its timer, not by the caller
+      const error =
+        timedOut && !signal?.aborted && caught instanceof RequestCancelledError
+          ? new TimeoutError(`API timeout after ${policy.attemptTimeoutMs}ms`)
+          : caught;
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      const apiError = classifyError(error);
+      const delayMs = getRetryDelay(policy, attempt, apiError);
+      if (delayMs === undefined) {
+        logger.warn(
+          `API attempt ${attempt} failed: ${apiError.message}. Giving up.`,
+        );
+        throw apiError;
       }
+
+      logger.warn(
+        `API attempt ${attempt} failed: ${apiError.message}. Retrying in ${delayMs}ms...`,
+      );
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancelAttempt);
     }
   }
+}
 
-  throw lastError || new Error("Unknown API failure after retries");
+/**
+ * Waits before a retry, rejecting with RequestCancelledError if the signal is aborted first.
+ * @param ms How long to wait
+ * @param signal Cancels the wait (optional)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
- * A generic and secure wrapper for making requests to the Cursor API using Node.js https module.
+ * A generic and secure wrapper for making requests to the Cursor API through the configured transport.
  * @param method The HTTP method (GET or POST).
- * @param endpoint The API endpoint (relative to BASE_URL).
+ * @param endpoint The API endpoint (relative to the base URL).
  * @param userCookie The user's authentication cookie.
+ * @param schema Validator the JSON response must match.
  * @param body The request body (for POST requests).
- * @returns A promise that resolves to the JSON response.
+ * @param signal Cancels the request (optional).
+ * @returns A promise that resolves to the validated JSON response.
+ * @throws {CursorApiError} A subclass describing what went wrong (see errors.ts).
+ * @throws {RequestCancelledError} If the signal was aborted.
  */
 async function makeRequest<T>(
   method: "GET" | "POST",
   endpoint: string,
   userCookie: string,
+  schema: Validator<T>,
   body?: object,
+  signal?: AbortSignal,
 ): Promise<T> {
-  const url = `${BASE_URL}/${endpoint}`;
-  console.log(`[Cursor Usage] Making ${method} request to ${endpoint}`);
-
-  const options: https.RequestOptions = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      "Cookie": `WorkosCursorSessionToken=${userCookie}`,
-      "Origin": "https://cursor.com"
-    },
-    timeout: TIMEOUT,
-  };
-
-  return new Promise<T>((resolve, reject) => {
-    const req = https.request(url, options, (res) => {
-      let data = "";
-
-      res.on("data", (chunk) => {
-        data += chunk;
-      });
-
-      res.on("end", () => {
-        try {
-          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-            const parsedData = JSON.parse(data);
-            resolve(parsedData as T);
-          } else {
-            console.error(`[Cursor Usage] HTTP error ${res.statusCode} for ${url}: ${data}`);
-            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-          }
-        } catch (error) {
-          console.error(`[Cursor Usage] Failed to parse response for ${url}: ${error}`);
-          reject(new Error(`Failed to parse response: ${error}`));
-        }
-      });
-    });
+  const url = `${baseUrl}/${endpoint}`;
+  logger.debug(`Making ${method} request to ${endpoint}`);
 
-    req.on("error", (error) => {
-      console.error(
-        `[Cursor Usage] ${method} request failed for ${url}: ${error.message}`
-      );
-      reject(error);
+  let response;
+  try {
+    response = await transport.request({
+      method,
+      url,
+      headers: {
+        "Content-Type": "application/json",
+        "Cookie": `WorkosCursorSessionToken=${userCookie}`,
+        "Origin": new URL(baseUrl).origin,
+      },
+      body: method === "POST" && body ? JSON.stringify(body) : undefined,
+      timeoutMs: TIMEOUT,
+      signal,
     });
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      logger.debug(`${method} request to ${endpoint} cancelled`);
+      throw error;
+    }
+    logger.error(
+      `${method} request failed for ${url}: ${error.message}`
+    );
+    throw classifyError(error);
+  }
 
-    // Handle request timeouts
-    req.on("timeout", () => {
-      req.destroy();
-      reject(new Error(`Request to ${url} timed out after ${TIMEOUT} seconds`));
-    });
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    logger.error(`HTTP error ${response.statusCode} for ${url}: ${response.body}`);
+    throw errorFromResponse(
+      response.statusCode,
+      response.body,
+      response.headers,
+    );
+  }
 
-    if (method === "POST" && body) {
-      const requestBody = JSON.stringify(body);
-      req.write(requestBody);
-    }
+  let json: unknown;
+  try {
+    json = JSON.parse(response.body);
+  } catch (error) {
+    logger.error(`Failed to parse response for ${url}: ${error}`);
+    throw new MalformedResponseError(`Failed to parse response: ${error}`);
+  }
 
-    req.end();
-  });
+  try {
+    return validate(schema, json, endpoint.split("?")[0]);
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      logger.error(
+        `API format changed: ${error.path} expected ${error.expected} but got ${error.actual}`,
+      );
+    }
+    throw error;
+  }
 }
 
 /**
@@ -128,9 +222,11 @@ async function makeRequest<T>(
 async function post<T>(
   endpoint: string,
   userCookie: string,
+  schema: Validator<T>,
   body: object,
+  signal?: AbortSignal,
 ): Promise<T> {
-  return makeRequest<T>("POST", endpoint, userCookie, body);
+  return makeRequest<T>("POST", endpoint, userCookie, schema, body, signal);
 }
 
 /**
@@ -138,45 +234,93 @@ async function post<T>(
  */
 async function get<T>(
   endpoint: string,
-  userCookie: string
+  userCookie: string,
+  schema: Validator<T>,
+  signal?: AbortSignal,
 ): Promise<T> {
-  return makeRequest<T>("GET", endpoint, userCookie);
+  return makeRequest<T>("GET", endpoint, userCookie, schema, undefined, signal);
 }
 
 /** Fetches all teams the user belongs to. */
-export async function fetchTeams(cookie: string): Promise<TeamsResponse> {
-  return post<TeamsResponse>("dashboard/teams", cookie, {});
+export async function fetchTeams(
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<TeamsResponse> {
+  return post("dashboard/teams", cookie, teamsSchema, {}, signal);
 }
 
 /** Fetches details for a specific team, including the user's ID within that team. */
 export async function fetchTeamDetails(
   teamId: number,
   cookie: string,
+  signal?: AbortSignal,
 ): Promise<TeamDetails> {
-  return post<TeamDetails>("dashboard/team", cookie, { teamId });
+  return post("dashboard/team", cookie, teamDetailsSchema, { teamId }, signal);
+}
+
+/** Fetches a team's hard limit on usage-based spending, which applies to members without an override. */
+export async function fetchTeamHardLimit(
+  teamId: number,
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<TeamHardLimit> {
+  return post(
+    "dashboard/get-hard-limit",
+    cookie,
+    teamHardLimitSchema,
+    { teamId },
+    signal,
+  );
 }
 
-/** Fetches the spend data for all members of a specific team. */
+/**
+ * Fetches the spend data for all members of a specific team.
+ * @param retryPolicy Overrides for the default retry policy (optional)
+ * @param signal Cancels the request (optional)
+ */
 export async function fetchTeamSpend(
   teamId: number,
   cookie: string,
+  retryPolicy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal,
 ): Promise<SpendData> {
-  return withRetry(() =>
-    post<SpendData>("dashboard/get-team-spend", cookie, { teamId }),
+  return withRetry(
+    (attemptSignal) =>
+      post(
+        "dashboard/get-team-spend",
+        cookie,
+        spendDataSchema,
+        { teamId },
+        attemptSignal,
+      ),
+    resolveRetryPolicy(retryPolicy),
+    signal,
   );
 }
 
 /** Fetches the current user's information from /api/auth/me. */
-export async function fetchUserMe(cookie: string): Promise<UserMeResponse> {
-  return get<UserMeResponse>("auth/me", cookie);
+export async function fetchUserMe(
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<UserMeResponse> {
+  return get("auth/me", cookie, userMeSchema, signal);
 }
 
-/** Fetches the current user's usage data from /api/usage?user=USER_ID. */
+/**
+ * Fetches the current user's usage data from /api/usage?user=USER_ID.
+ * @param retryPolicy Overrides for the default retry policy (optional)
+ * @param signal Cancels the request (optional)
+ */
 export async function fetchUserUsage(
   userId: string,
   cookie: string,
+  retryPolicy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal,
 ): Promise<UserUsageResponse> {
-  return withRetry(() =>
-    get<UserUsageResponse>(`usage?user=${userId}`, cookie),
+  return withRetry(
+    (attemptSignal) =>
+      get(`usage?user=${userId}`, cookie, userUsageSchema, attemptSignal),
+    resolveRetryPolicy(retryPolicy),
+    signal,
   );
 }
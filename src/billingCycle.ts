@@ -0,0 +1,151 @@
+/**
+ * A billing cycle, as seen from a point in time.
+ * Day counts are calendar days in the user's timezone, so "Resets today" and
+ * "Resets tomorrow" match the user's clock regardless of DST changes.
+ */
+export interface BillingCycle {
+  start: Date;
+  end: Date; // next reset
+  totalDays: number;
+  elapsedDays: number;
+  daysRemaining: number;
+  resetDateStr: string; // YYYY-MM-DD of the reset in the user's timezone
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Adds months to a date in UTC, the calendar Cursor's cycle timestamps use.
+ * The day of month is clamped to the target month's length, so Jan 31 plus one
+ * month is Feb 28 (or 29) rather than overflowing into March.
+ * @param date The date to add to
+ * @param months Number of months to add (may be negative)
+ */
+export function addMonthsClamped(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), daysInMonth));
+  return result;
+}
+
+/**
+ * Returns the calendar date of an instant in a timezone.
+ * @param date The instant
+ * @param timeZone IANA timezone name, or undefined for the system timezone
+ */
+function calendarDate(
+  date: Date,
+  timeZone?: string,
+): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day") };
+}
+
+/**
+ * Counts the calendar days from one instant to another in a timezone.
+ * @returns The number of midnights between the two, negative if `to` is earlier
+ */
+function calendarDaysBetween(from: Date, to: Date, timeZone?: string): number {
+  const dayNumber = (date: Date) => {
+    const { year, month, day } = calendarDate(date, timeZone);
+    return Date.UTC(year, month - 1, day) / DAY_MS;
+  };
+  return dayNumber(to) - dayNumber(from);
+}
+
+/**
+ * Formats the calendar date of an instant as YYYY-MM-DD.
+ * @param date The instant
+ * @param timeZone IANA timezone name, or undefined for the system timezone
+ */
+export function formatCycleDate(date: Date, timeZone?: string): string {
+  const { year, month, day } = calendarDate(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Returns the timezone to label the boundaries of a cycle in. A date-only
+ * start (YYYY-MM-DD) is parsed as midnight UTC, so it is labelled in UTC to
+ * keep its calendar day; a full timestamp is labelled in the user's timezone.
+ * @param startOfMonth ISO date string of when the cycle started
+ * @param timeZone IANA timezone name, or undefined for the system timezone
+ */
+export function getCycleLabelTimeZone(
+  startOfMonth: string,
+  timeZone?: string,
+): string | undefined {
+  return DATE_ONLY_PATTERN.test(startOfMonth) ? "UTC" : timeZone;
+}
+
+/**
+ * Checks whether a timezone name is supported by the runtime.
+ * @param timeZone IANA timezone name, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the billing cycle that starts at `startOfMonth`.
+ * @param startOfMonth ISO date string of when the cycle started
+ * @param now Current time
+ * @param timeZone IANA timezone to count days in, or undefined for the system timezone
+ * @returns The cycle; elapsed and remaining days are clamped to the cycle
+ */
+export function getBillingCycle(
+  startOfMonth: string,
+  now: Date = new Date(),
+  timeZone?: string,
+): BillingCycle {
+  const start = new Date(startOfMonth);
+  const end = addMonthsClamped(start, 1);
+  const totalDays = calendarDaysBetween(start, end, timeZone);
+  const daysRemaining = Math.min(
+    totalDays,
+    Math.max(0, calendarDaysBetween(now, end, timeZone)),
+  );
+
+  return {
+    start,
+    end,
+    totalDays,
+    elapsedDays: totalDays - daysRemaining,
+    daysRemaining,
+    resetDateStr: formatCycleDate(end, timeZone),
+  };
+}
+
+/**
+ * Calculates the average number of requests (or tokens) used per day in the current cycle.
+ * @param usedRequests The number of requests (or tokens) used so far.
+ * @param resetInfo Information about when the usage resets (optional).
+ * @returns The daily rate rounded to one decimal, or 0 if it cannot be determined.
+ */
+export function calculateDailyUsageRate(
+  usedRequests: number,
+  resetInfo?: BillingCycle,
+): number {
+  if (
+    !resetInfo ||
+    resetInfo.daysRemaining <= 0 ||
+    resetInfo.elapsedDays <= 0
+  ) {
+    return 0;
+  }
+  return parseFloat((usedRequests / resetInfo.elapsedDays).toFixed(1));
+}
@@ -0,0 +1,140 @@
+import { CursorApiError, classifyError } from "./errors";
+import { getRetryAfterMs } from "./retryPolicy";
+import * as logger from "./logger";
+
+/**
+ * When the breaker opens and how long polling stays paused.
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failed refreshes before polling pauses
+  cooldownMs: number; // first pause; doubles each time a probe fails
+  maxCooldownMs: number;
+}
+
+/**
+ * closed: polling runs normally.
+ * open: polling is paused until `resumeAt`.
+ * halfOpen: the pause is over; the next refresh is a probe that closes or re-opens the breaker.
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+/**
+ * A snapshot of the breaker, for display.
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  resumeAt?: Date;
+  lastError?: CursorApiError;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 5 * 60 * 1000,
+  maxCooldownMs: 60 * 60 * 1000,
+};
+
+let options = DEFAULT_CIRCUIT_BREAKER_OPTIONS;
+let state: CircuitState = "closed";
+let consecutiveFailures = 0;
+let trips = 0; // times the breaker opened since the last success
+let openUntil = 0;
+let lastError: CursorApiError | undefined;
+
+/**
+ * Replaces the breaker options (e.g. in tests) and resets its state.
+ * @param overrides Options to override
+ */
+export function configureCircuitBreaker(
+  overrides: Partial<CircuitBreakerOptions> = {},
+): void {
+  options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...overrides };
+  resetCircuit();
+}
+
+/**
+ * Closes the breaker and forgets past failures, e.g. when the user refreshes manually.
+ */
+export function resetCircuit(): void {
+  state = "closed";
+  consecutiveFailures = 0;
+  trips = 0;
+  openUntil = 0;
+  lastError = undefined;
+}
+
+/**
+ * Checks whether a refresh may hit the API now. Once the pause is over, the
+ * breaker moves to half-open and lets one probe through.
+ * @param now Current time in milliseconds
+ */
+export function canRequest(now: number = Date.now()): boolean {
+  if (state === "open" && now >= openUntil) {
+    state = "halfOpen";
+    logger.info("Circuit breaker half-open - probing the API");
+  }
+  return state !== "open";
+}
+
+/**
+ * Records a successful refresh, closing the breaker.
+ */
+export function recordSuccess(): void {
+  if (state !== "closed") {
+    logger.info("Circuit breaker closed - polling resumed");
+  }
+  resetCircuit();
+}
+
+/**
+ * Records a failed refresh. Opens the breaker after `failureThreshold`
+ * consecutive failures, or straight away when a half-open probe fails.
+ * Session errors and API format changes are not counted: the first pauses
+ * polling on its own, and waiting does not fix the second.
+ * @param error The error the refresh failed with
+ * @param now Current time in milliseconds
+ * @returns True if the breaker is open after this failure
+ */
+export function recordFailure(
+  error: unknown,
+  now: number = Date.now(),
+): boolean {
+  const apiError = classifyError(error);
+  if (
+    apiError.kind === "authExpired" ||
+    apiError.kind === "forbidden" ||
+    apiError.kind === "formatChanged"
+  ) {
+    return state === "open";
+  }
+
+  lastError = apiError;
+  consecutiveFailures++;
+
+  if (state === "halfOpen" || consecutiveFailures >= options.failureThreshold) {
+    trips++;
+    const cooldown = Math.min(
+      options.maxCooldownMs,
+      options.cooldownMs * 2 ** (trips - 1),
+    );
+    // Never resume before the server said we may
+    openUntil = now + Math.max(cooldown, getRetryAfterMs(apiError) ?? 0);
+    state = "open";
+    logger.warn(
+      `Circuit breaker open after ${consecutiveFailures} failures - pausing polling until ${new Date(openUntil).toLocaleTimeString()}`,
+    );
+  }
+  return state === "open";
+}
+
+/**
+ * Returns the breaker's current state.
+ */
+export function getCircuitStatus(): CircuitStatus {
+  return {
+    state,
+    consecutiveFailures,
+    resumeAt: state === "open" ? new Date(openUntil) : undefined,
+    lastError,
+  };
+}
@@ -1,4 +1,22 @@
 import * as vscode from "vscode";
+import { AlertThresholds, DEFAULT_ALERT_THRESHOLDS } from "./thresholds";
+import { AlertSettings } from "./alerts";
+import { DEFAULT_BASE_URL } from "./api";
+import { PREMIUM_MODEL } from "./modelUsage";
+import { isValidTimeZone } from "./billingCycle";
+import {
+  DAY_NAMES,
+  DEFAULT_NOTIFICATION_SCHEDULE,
+  NotificationSchedule,
+  parseTime,
+} from "./notificationSchedule";
+import {
+  DEFAULT_STATUS_BAR_FORMAT,
+  STATUS_BAR_DISPLAY_MODES,
+  StatusBarDisplayMode,
+} from "./formatter";
+import { NOTIFIER_BACKEND_NAMES, NotifierBackendName } from "./notifier";
+import * as logger from "./logger";
 
 const CONFIG_NAMESPACE = "cursorUsage";
 
@@ -12,6 +30,85 @@ export function getTeamIdFromSettings(): string | undefined {
     .get<string>("teamId");
 }
 
+/**
+ * Retrieves the IDs of the additional teams to track alongside the primary team.
+ * Non-numeric entries are ignored.
+ * @returns The additional team IDs (empty if none are configured).
+ */
+export function getAdditionalTeamIds(): number[] {
+  const teamIds = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<unknown>("additionalTeamIds", []);
+  return Array.isArray(teamIds)
+    ? teamIds
+        .map((id) => (typeof id === "string" ? parseInt(id, 10) : id))
+        .filter((id): id is number => typeof id === "number" && !isNaN(id))
+    : [];
+}
+
+/**
+ * Retrieves the base URL of the Cursor API from the extension's settings.
+ * Falls back to the public API if the setting is empty or not an http(s) URL.
+ * @returns The base URL without a trailing slash.
+ */
+export function getApiBaseUrl(): string {
+  const value = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("apiBaseUrl", DEFAULT_BASE_URL)
+    .trim();
+  try {
+    const url = new URL(value);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      return value.replace(/\/+$/, "");
+    }
+  } catch {
+    // Fall through to the default below
+  }
+  if (value) {
+    logger.warn(
+      `Ignoring invalid cursorUsage.apiBaseUrl "${value}", using ${DEFAULT_BASE_URL}`,
+    );
+  }
+  return DEFAULT_BASE_URL;
+}
+
+/**
+ * Retrieves the network settings used to reach the Cursor API.
+ * The proxy comes from VS Code's `http.proxy` setting, falling back to the
+ * HTTPS_PROXY/HTTP_PROXY environment variables.
+ * @returns The proxy URL, proxy bypass list, TLS strictness and CA bundle path.
+ */
+export function getNetworkSettings(): {
+  proxyUrl?: string;
+  noProxy?: string;
+  strictSSL: boolean;
+  caBundlePath?: string;
+} {
+  const httpConfig = vscode.workspace.getConfiguration("http");
+  const env = process.env;
+  const noProxySetting = httpConfig.get<string[]>("noProxy", []);
+
+  return {
+    proxyUrl:
+      httpConfig.get<string>("proxy") ||
+      env.HTTPS_PROXY ||
+      env.https_proxy ||
+      env.HTTP_PROXY ||
+      env.http_proxy ||
+      undefined,
+    noProxy:
+      (Array.isArray(noProxySetting) && noProxySetting.length > 0
+        ? noProxySetting.join(",")
+        : env.NO_PROXY || env.no_proxy) || undefined,
+    strictSSL: httpConfig.get<boolean>("proxyStrictSSL", true),
+    caBundlePath:
+      vscode.workspace
+        .getConfiguration(CONFIG_NAMESPACE)
+        .get<string>("caBundlePath", "")
+        .trim() || undefined,
+  };
+}
+
 /**
  * Retrieves the poll interval in minutes from the extension's settings.
  * Defaults to 30 minutes if not set.
@@ -22,3 +119,254 @@ export function getPollMinutes(): number {
     .getConfiguration(CONFIG_NAMESPACE)
     .get<number>("pollMinutes", 30);
 }
+
+/**
+ * Retrieves which model bucket drives the status bar number.
+ * Defaults to the premium ("gpt-4") bucket if not set.
+ * @returns The model name.
+ */
+export function getStatusBarModel(): string {
+  const model = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("statusBarModel", PREMIUM_MODEL)
+    .trim();
+  return model || PREMIUM_MODEL;
+}
+
+/**
+ * Retrieves what the status bar number shows.
+ * Defaults to "requests" (remaining requests, spend once they run out) if not set or unknown.
+ * @returns The display mode.
+ */
+export function getStatusBarDisplayMode(): StatusBarDisplayMode {
+  const mode = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("statusBarDisplayMode", "requests");
+  return STATUS_BAR_DISPLAY_MODES.includes(mode as StatusBarDisplayMode)
+    ? (mode as StatusBarDisplayMode)
+    : "requests";
+}
+
+/**
+ * Retrieves the format template used by the "custom" display mode.
+ * Defaults to "{remaining}/{total}" if not set or empty.
+ * @returns The template.
+ */
+export function getStatusBarFormat(): string {
+  const template = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("statusBarFormat", DEFAULT_STATUS_BAR_FORMAT)
+    .trim();
+  return template || DEFAULT_STATUS_BAR_FORMAT;
+}
+
+/**
+ * Retrieves the timezone billing-cycle days are counted in.
+ * Empty or unknown timezones fall back to the system timezone.
+ * @returns The IANA timezone name, or undefined for the system timezone.
+ */
+export function getTimeZone(): string | undefined {
+  const timeZone = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("timeZone", "")
+    .trim();
+  if (!timeZone) {
+    return undefined;
+  }
+  if (!isValidTimeZone(timeZone)) {
+    logger.warn(
+      `Ignoring unknown cursorUsage.timeZone "${timeZone}", using the system timezone`,
+    );
+    return undefined;
+  }
+  return timeZone;
+}
+
+/**
+ * Retrieves how many billing cycles of usage history to keep.
+ * Defaults to 6 cycles if not set; always at least 1.
+ * @returns The number of billing cycles to retain.
+ */
+export function getHistoryRetentionCycles(): number {
+  const cycles = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<number>("historyRetentionCycles", 6);
+  return Math.max(1, Math.floor(cycles));
+}
+
+/**
+ * Valid range for each alert threshold setting.
+ */
+const THRESHOLD_RANGES: Record<keyof AlertThresholds, [number, number]> = {
+  lowRequestsPercent: [0, 100],
+  lowRequestsCount: [0, Number.MAX_SAFE_INTEGER],
+  spendWarningPercent: [0, 100],
+  spendWarningDollars: [0, Number.MAX_SAFE_INTEGER],
+  exhaustionWarningDays: [0, 31],
+  lowTokensPercent: [0, 100],
+};
+
+/**
+ * Reads and validates the alert thresholds from the extension's settings.
+ * Invalid values are replaced by their defaults and reported in `problems`.
+ * @returns The thresholds to apply and a description of every invalid setting.
+ */
+function readAlertThresholds(): {
+  thresholds: AlertThresholds;
+  problems: string[];
+} {
+  const configuration = vscode.workspace.getConfiguration(
+    `${CONFIG_NAMESPACE}.thresholds`,
+  );
+  const thresholds = { ...DEFAULT_ALERT_THRESHOLDS };
+  const problems: string[] = [];
+
+  for (const key of Object.keys(
+    THRESHOLD_RANGES,
+  ) as (keyof AlertThresholds)[]) {
+    const value = configuration.get<unknown>(
+      key,
+      DEFAULT_ALERT_THRESHOLDS[key],
+    );
+    const [min, max] = THRESHOLD_RANGES[key];
+    if (
+      typeof value !== "number" ||
+      !isFinite(value) ||
+      value < min ||
+      value > max
+    ) {
+      problems.push(
+        `${CONFIG_NAMESPACE}.thresholds.${key} must be a number between ${min} and ${max === Number.MAX_SAFE_INTEGER ? "∞" : max} (got ${JSON.stringify(value)}); using ${DEFAULT_ALERT_THRESHOLDS[key]}.`,
+      );
+      continue;
+    }
+    thresholds[key] = value;
+  }
+
+  return { thresholds, problems };
+}
+
+/**
+ * Retrieves the alert thresholds from the extension's settings,
+ * falling back to the default for any invalid value.
+ * @returns The validated alert thresholds.
+ */
+export function getAlertThresholds(): AlertThresholds {
+  return readAlertThresholds().thresholds;
+}
+
+/**
+ * Validates the alert threshold settings.
+ * @returns A human-readable message for every invalid setting (empty if all are valid).
+ */
+export function validateAlertThresholds(): string[] {
+  return readAlertThresholds().problems;
+}
+
+/**
+ * Retrieves which threshold crossings should raise a notification.
+ * Non-numeric and negative entries are ignored.
+ * @returns The alert settings.
+ */
+export function getAlertSettings(): AlertSettings {
+  const configuration = vscode.workspace.getConfiguration(
+    `${CONFIG_NAMESPACE}.alerts`,
+  );
+  const numbers = (values: unknown): number[] =>
+    Array.isArray(values)
+      ? values.filter(
+          (value): value is number =>
+            typeof value === "number" && isFinite(value) && value >= 0,
+        )
+      : [];
+
+  return {
+    enabled: configuration.get<boolean>("enabled", true),
+    remainingRequests: numbers(
+      configuration.get<unknown>("remainingRequests", [50]),
+    ),
+    spendPercentages: numbers(
+      configuration.get<unknown>("spendPercentages", [50, 80, 100]),
+    ),
+    tokenPercentages: numbers(
+      configuration.get<unknown>("tokenPercentages", [80, 100]),
+    ),
+    budgetForecast: configuration.get<boolean>("budgetForecast", true),
+  };
+}
+
+/**
+ * Retrieves when digests are sent and when notifications are held back.
+ * Invalid times and day names are ignored; without any valid digest time or day
+ * the defaults (9 AM, every day) apply.
+ * @returns The notification schedule.
+ */
+export function getNotificationSchedule(): NotificationSchedule {
+  const configuration = vscode.workspace.getConfiguration(
+    `${CONFIG_NAMESPACE}.notifications`,
+  );
+  const strings = (values: unknown): string[] =>
+    Array.isArray(values)
+      ? values.filter((value): value is string => typeof value === "string")
+      : [];
+  const dayIndex = (name: string) => DAY_NAMES.indexOf(name.toLowerCase());
+
+  const frequency = configuration.get<string>("digestFrequency", "daily");
+  const times = strings(configuration.get<unknown>("digestTimes", ["09:00"]))
+    .map(parseTime)
+    .filter((time): time is number => time !== undefined)
+    .sort((a, b) => a - b);
+  const days = strings(configuration.get<unknown>("digestDays", DAY_NAMES))
+    .map(dayIndex)
+    .filter((day) => day >= 0);
+  const weeklyDay = dayIndex(
+    configuration.get<string>("weeklyDigestDay", "monday"),
+  );
+  const quietStart = parseTime(
+    configuration.get<string>("quietHoursStart", ""),
+  );
+  const quietEnd = parseTime(configuration.get<string>("quietHoursEnd", ""));
+
+  return {
+    frequency:
+      frequency === "weekly" || frequency === "off" ? frequency : "daily",
+    times: times.length > 0 ? times : DEFAULT_NOTIFICATION_SCHEDULE.times,
+    days: days.length > 0 ? days : DEFAULT_NOTIFICATION_SCHEDULE.days,
+    weeklyDay:
+      weeklyDay >= 0 ? weeklyDay : DEFAULT_NOTIFICATION_SCHEDULE.weeklyDay,
+    quietHours:
+      quietStart !== undefined && quietEnd !== undefined
+        ? { start: quietStart, end: quietEnd }
+        : undefined,
+    catchUp:
+      configuration.get<string>("catchUp", "send") === "skip" ? "skip" : "send",
+  };
+}
+
+/**
+ * Retrieves where notifications are shown.
+ * Defaults to "auto" (in the editor and through the platform's OS notifier) if not set or unknown.
+ * @returns The notifier backend.
+ */
+export function getNotifierBackend(): NotifierBackendName {
+  const backend = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("notifications.backend", "auto");
+  return NOTIFIER_BACKEND_NAMES.includes(backend as NotifierBackendName)
+    ? (backend as NotifierBackendName)
+    : "auto";
+}
+
+/**
+ * Retrieves the least severe level written to the extension's log.
+ * Defaults to "info" if not set or unknown.
+ * @returns The log level.
+ */
+export function getLogLevel(): logger.LogLevel {
+  const level = vscode.workspace
+    .getConfiguration(CONFIG_NAMESPACE)
+    .get<string>("logLevel", logger.DEFAULT_LOG_LEVEL);
+  return logger.LOG_LEVELS.includes(level as logger.LogLevel)
+    ? (level as logger.LogLevel)
+    : logger.DEFAULT_LOG_LEVEL;
+}
@@ -0,0 +1,293 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as history from "./history";
+import { UsageSnapshot } from "./history";
+import { formatTokens, getModelBuckets } from "./modelUsage";
+import * as config from "./configuration";
+import {
+  BillingCycle,
+  formatCycleDate,
+  getBillingCycle,
+  getCycleLabelTimeZone,
+} from "./billingCycle";
+import {
+  escapeHtml,
+  projectExhaustionDate,
+  renderLineChart,
+} from "./usageChart";
+
+let panel: vscode.WebviewPanel | undefined;
+let selectedCycle: string | undefined; // undefined means "latest cycle"
+
+/**
+ * Opens the usage dashboard, or brings it to the front if it is already open.
+ * The dashboard renders from the persisted usage history, so it works offline
+ * with the last known data.
+ */
+export function openDashboard(): void {
+  if (panel) {
+    panel.reveal();
+    updateDashboard();
+    return;
+  }
+
+  panel = vscode.window.createWebviewPanel(
+    "cursorUsageDashboard",
+    "Cursor Usage Dashboard",
+    vscode.ViewColumn.One,
+    { enableScripts: true, localResourceRoots: [] },
+  );
+
+  panel.onDidDispose(() => {
+    panel = undefined;
+    selectedCycle = undefined;
+  });
+
+  panel.webview.onDidReceiveMessage((message) => {
+    if (message && message.type === "selectCycle") {
+      selectedCycle = message.cycle || undefined;
+      updateDashboard();
+    } else if (message && message.type === "refresh") {
+      vscode.commands.executeCommand("cursorUsage.refresh");
+    }
+  });
+
+  updateDashboard();
+}
+
+/**
+ * Closes the dashboard if it is open.
+ */
+export function disposeDashboard(): void {
+  panel?.dispose();
+}
+
+/**
+ * Re-renders the dashboard if it is open. Called after every refresh so the
+ * panel stays live while the poll timer runs.
+ */
+export function updateDashboard(): void {
+  if (!panel) {
+    return;
+  }
+  panel.webview.html = renderDashboard(crypto.randomBytes(16).toString("hex"));
+}
+
+/**
+ * Builds the full dashboard HTML for the selected (or latest) billing cycle.
+ * @param nonce Nonce allowing the inline script under the content security policy
+ */
+function renderDashboard(nonce: string): string {
+  const latest = history.getLatestSnapshot();
+  const cycles = history.getCycles();
+
+  if (!latest) {
+    return wrapHtml(
+      nonce,
+      `<p class="empty">No usage data recorded yet. Data appears here after the first successful refresh.</p>`,
+    );
+  }
+
+  const cycle =
+    selectedCycle && cycles.includes(selectedCycle) ? selectedCycle : cycles[0];
+  const snapshots = history
+    .getSnapshots({ startOfMonth: cycle })
+    .filter((s) => s.teamId === latest.teamId);
+  const current = snapshots[snapshots.length - 1] || latest;
+
+  const timeZone = config.getTimeZone();
+  const billingCycle = getBillingCycle(cycle, new Date(), timeZone);
+  const cycleTimeZone = getCycleLabelTimeZone(cycle, timeZone);
+  const cycleStart = billingCycle.start;
+  const cycleEnd = billingCycle.end;
+
+  const requestPoints = snapshots.map((s) => ({
+    x: s.timestamp,
+    y: s.usedRequests,
+  }));
+  const spendPoints = snapshots
+    .filter((s) => s.spendCents !== undefined)
+    .map((s) => ({ x: s.timestamp, y: (s.spendCents as number) / 100 }));
+
+  const cycleOptions = cycles
+    .map(
+      (c) =>
+        `<option value="${escapeHtml(c)}"${c === cycle ? " selected" : ""}>${escapeHtml(formatCycleDate(new Date(c), getCycleLabelTimeZone(c, timeZone)))}</option>`,
+    )
+    .join("");
+
+  let body = `
+    <header>
+      <h1>Cursor Usage</h1>
+      <label>Billing cycle
+        <select id="cycle">${cycleOptions}</select>
+      </label>
+      <button id="refresh">Refresh</button>
+    </header>
+    <p class="muted">Cycle ${escapeHtml(formatCycleDate(cycleStart, cycleTimeZone))} – ${escapeHtml(formatCycleDate(cycleEnd, cycleTimeZone))} · Last updated ${escapeHtml(new Date(current.timestamp).toLocaleString())}</p>
+    ${renderSummary(current, billingCycle)}
+    ${renderModelTable(current)}
+    <section>
+      <h2>Requests used over time${current.model ? ` (${escapeHtml(current.model)})` : ""}</h2>
+      ${renderLineChart(requestPoints, cycleStart.getTime(), cycleEnd.getTime(), current.maxRequests, (v) => String(Math.round(v)), cycleTimeZone)}
+    </section>`;
+
+  if (spendPoints.length > 0) {
+    body += `
+    <section>
+      <h2>Spend over time</h2>
+      ${renderLineChart(spendPoints, cycleStart.getTime(), cycleEnd.getTime(), current.hardLimitDollars, (v) => `$${v.toFixed(2)}`, cycleTimeZone)}
+    </section>`;
+  }
+
+  return wrapHtml(nonce, body);
+}
+
+/**
+ * Renders the summary cards: remaining requests, remaining budget and projected exhaustion.
+ * @param snapshot The latest snapshot of the cycle
+ * @param billingCycle The billing cycle the snapshot belongs to
+ */
+function renderSummary(
+  snapshot: UsageSnapshot,
+  billingCycle: BillingCycle,
+): string {
+  const remainingRequests = Math.max(
+    0,
+    snapshot.maxRequests - snapshot.usedRequests,
+  );
+  const cards: string[] = [
+    card(
+      "Remaining requests",
+      `${remainingRequests} / ${snapshot.maxRequests}`,
+    ),
+  ];
+
+  if (
+    snapshot.spendCents !== undefined &&
+    snapshot.hardLimitDollars !== undefined
+  ) {
+    const spendDollars = snapshot.spendCents / 100;
+    cards.push(
+      card(
+        "Remaining budget",
+        `$${(snapshot.hardLimitDollars - spendDollars).toFixed(2)} of $${snapshot.hardLimitDollars.toFixed(2)}`,
+      ),
+    );
+  }
+
+  const exhaustion = projectExhaustionDate(snapshot, billingCycle);
+  cards.push(
+    card(
+      "Projected exhaustion",
+      remainingRequests <= 0
+        ? "Exhausted"
+        : exhaustion
+          ? formatDate(exhaustion)
+          : "Not before reset",
+    ),
+  );
+
+  return `<div class="cards">${cards.join("")}</div>`;
+}
+
+/**
+ * Renders a table with the usage of every model bucket in the snapshot.
+ * @param snapshot The latest snapshot of the cycle
+ */
+function renderModelTable(snapshot: UsageSnapshot): string {
+  if (!snapshot.models || Object.keys(snapshot.models).length === 0) {
+    return "";
+  }
+
+  const rows = getModelBuckets(snapshot.models)
+    .map(({ model, usage }) => {
+      const limit = (value: number | null, format: (v: number) => string) =>
+        value === null ? "—" : format(value);
+      const marker = model === snapshot.model ? " ★" : "";
+      return `<tr>
+        <td>${escapeHtml(model)}${marker}</td>
+        <td class="num">${usage.numRequests}</td>
+        <td class="num">${limit(usage.maxRequestUsage, String)}</td>
+        <td class="num">${usage.numRequestsTotal}</td>
+        <td class="num">${escapeHtml(formatTokens(usage.numTokens))}</td>
+        <td class="num">${escapeHtml(limit(usage.maxTokenUsage, formatTokens))}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `
+    <section>
+      <h2>Models</h2>
+      <table>
+        <thead><tr><th>Model</th><th class="num">Requests</th><th class="num">Request limit</th><th class="num">Total requests</th><th class="num">Tokens</th><th class="num">Token limit</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <p class="muted">★ shown in the status bar</p>
+    </section>`;
+}
+
+/**
+ * Renders a single summary card.
+ */
+function card(title: string, value: string): string {
+  return `<div class="card"><div class="muted">${escapeHtml(title)}</div><div class="value">${escapeHtml(value)}</div></div>`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in the configured timezone.
+ */
+function formatDate(date: Date): string {
+  return formatCycleDate(date, config.getTimeZone());
+}
+
+/**
+ * Wraps dashboard content in a themed HTML document with a strict content security policy.
+ * @param nonce Nonce for the inline script
+ * @param body Inner HTML
+ */
+function wrapHtml(nonce: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Cursor Usage Dashboard</title>
+<style>
+  body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); padding: 0 16px; }
+  header { display: flex; align-items: center; gap: 16px; }
+  h1 { flex: 1; font-size: 1.4em; }
+  h2 { font-size: 1.1em; }
+  .muted { color: var(--vscode-descriptionForeground); }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 16px 0; }
+  .card { border: 1px solid var(--vscode-panel-border); border-radius: 4px; padding: 8px 12px; min-width: 160px; }
+  .value { font-size: 1.3em; margin-top: 4px; }
+  svg { width: 100%; max-width: 720px; height: auto; }
+  svg text { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+  .axis { stroke: var(--vscode-panel-border); }
+  .limit { stroke: var(--vscode-charts-red); stroke-dasharray: 4 4; }
+  .series { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 2; }
+  .point { fill: var(--vscode-charts-blue); }
+  table { border-collapse: collapse; }
+  th, td { padding: 2px 12px 2px 0; text-align: left; }
+  .num { text-align: right; }
+  select, button { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-panel-border); padding: 2px 6px; }
+</style>
+</head>
+<body>
+${body}
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const cycle = document.getElementById("cycle");
+  if (cycle) {
+    cycle.addEventListener("change", () => vscode.postMessage({ type: "selectCycle", cycle: cycle.value }));
+  }
+  const refresh = document.getElementById("refresh");
+  if (refresh) {
+    refresh.addEventListener("click", () => vscode.postMessage({ type: "refresh" }));
+  }
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,214 @@
+import { IncomingHttpHeaders } from "http";
+
+/**
+ * Broad classes of API failure. Each class gets its own status bar message and
+ * recovery action.
+ */
+export type ApiErrorKind =
+  | "authExpired"
+  | "forbidden"
+  | "rateLimited"
+  | "server"
+  | "network"
+  | "timeout"
+  | "malformedResponse"
+  | "formatChanged"
+  | "http";
+
+/**
+ * Base class for every error raised by the API layer.
+ */
+export class CursorApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The session cookie is missing, invalid or expired (HTTP 401). */
+export class AuthExpiredError extends CursorApiError {
+  constructor(message: string, statusCode = 401) {
+    super(message, "authExpired", statusCode);
+  }
+}
+
+/** The user may not access the resource, e.g. not a member of the team (HTTP 403). */
+export class ForbiddenError extends CursorApiError {
+  constructor(message: string) {
+    super(message, "forbidden", 403);
+  }
+}
+
+/** Cursor is rate limiting the user (HTTP 429). */
+export class RateLimitedError extends CursorApiError {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message, "rateLimited", 429);
+  }
+}
+
+/** Cursor's servers failed to handle the request (HTTP 5xx). */
+export class ServerError extends CursorApiError {
+  constructor(
+    message: string,
+    statusCode: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message, "server", statusCode);
+  }
+}
+
+/** The API could not be reached at all (DNS, refused connection, proxy, TLS). */
+export class NetworkError extends CursorApiError {
+  constructor(
+    message: string,
+    readonly code?: string,
+  ) {
+    super(message, "network");
+  }
+}
+
+/** The request did not complete in time. */
+export class TimeoutError extends CursorApiError {
+  constructor(message: string) {
+    super(message, "timeout");
+  }
+}
+
+/** The response could not be parsed as JSON. */
+export class MalformedResponseError extends CursorApiError {
+  constructor(message: string, kind: ApiErrorKind = "malformedResponse") {
+    super(message, kind);
+  }
+}
+
+/**
+ * The response parsed but did not match the expected schema, which usually
+ * means Cursor changed its API.
+ */
+export class SchemaValidationError extends MalformedResponseError {
+  constructor(
+    readonly path: string, // e.g. `usage["gpt-4"].numRequests`
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(`${path}: expected ${expected}, got ${actual}`, "formatChanged");
+  }
+}
+
+/** Any other unexpected HTTP status. */
+export class HttpError extends CursorApiError {
+  constructor(message: string, statusCode: number) {
+    super(message, "http", statusCode);
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal. Not an API failure: it is
+ * never retried, classified or shown, so it does not extend CursorApiError.
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = "Request cancelled") {
+    super(message);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Builds the typed error for a non-2xx response.
+ * @param statusCode The HTTP status code
+ * @param body The response body (truncated in the message)
+ * @param headers The response headers (used for Retry-After on 429 and 5xx)
+ */
+export function errorFromResponse(
+  statusCode: number,
+  body: string,
+  headers: IncomingHttpHeaders = {},
+): CursorApiError {
+  const message = `HTTP ${statusCode}: ${body.slice(0, 200)}`;
+  if (statusCode === 401) {
+    return new AuthExpiredError(message);
+  }
+  if (statusCode === 403) {
+    return new ForbiddenError(message);
+  }
+  if (statusCode === 429) {
+    return new RateLimitedError(
+      message,
+      parseRetryAfter(headers["retry-after"]),
+    );
+  }
+  if (statusCode >= 500) {
+    return new ServerError(
+      message,
+      statusCode,
+      parseRetryAfter(headers["retry-after"]),
+    );
+  }
+  return new HttpError(message, statusCode);
+}
+
+/**
+ * Parses a Retry-After header (either delay-seconds or an HTTP date).
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10) * 1000;
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+  "ECONNABORTED",
+]);
+
+/**
+ * Converts any thrown value into a CursorApiError so callers can branch on `kind`.
+ * Errors that are already classified are returned unchanged.
+ * @param error The thrown value
+ */
+export function classifyError(error: unknown): CursorApiError {
+  if (error instanceof CursorApiError) {
+    return error;
+  }
+
+  const err = error instanceof Error ? error : new Error(String(error));
+  const code = (err as NodeJS.ErrnoException).code;
+
+  if (code === "ETIMEDOUT" || /timed? ?out/i.test(err.message)) {
+    return new TimeoutError(err.message);
+  }
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return new NetworkError(err.message, code);
+  }
+  if (err instanceof SyntaxError) {
+    return new MalformedResponseError(err.message);
+  }
+  if (code) {
+    // Other socket/TLS level failures (e.g. certificate errors)
+    return new NetworkError(err.message, code);
+  }
+  return new CursorApiError(err.message, "http");
+}
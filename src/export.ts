@@ -0,0 +1,359 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as history from "./history";
+import * as teamMembersView from "./teamMembersView";
+import { UsageSnapshot } from "./history";
+import { TeamSpendSnapshot } from "./teamMembersView";
+import * as logger from "./logger";
+
+/**
+ * Version of the export schema. Bump it whenever a field is renamed, removed
+ * or changes meaning; adding optional fields does not require a bump.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * A usage sample as written to exports.
+ */
+export interface ExportedSample {
+  timestamp: string; // ISO 8601
+  teamId: number | null;
+  startOfMonth: string;
+  usedRequests: number;
+  maxRequests: number;
+  remainingRequests: number;
+  spendCents: number | null;
+  hardLimitDollars: number | null;
+}
+
+/**
+ * A team member's spend as written to exports.
+ */
+export interface ExportedTeamMember {
+  userId: number | null;
+  email: string;
+  name: string | null;
+  role: string | null;
+  fastPremiumRequests: number | null;
+  spendCents: number | null;
+  hardLimitOverrideDollars: number | null;
+}
+
+/**
+ * The full export document. The JSON export is this object verbatim; the CSV
+ * export flattens it into one row per record (see CSV_COLUMNS).
+ */
+export interface UsageExport {
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601
+  range: { from: string | null; to: string };
+  current: ExportedSample | null;
+  samples: ExportedSample[];
+  teamMemberSpend: {
+    teamId: number;
+    fetchedAt: string; // ISO 8601
+    members: ExportedTeamMember[];
+  } | null;
+}
+
+/**
+ * A range of time to export. `from` undefined means "since the first sample".
+ */
+export interface ExportRange {
+  from?: Date;
+  to: Date;
+}
+
+const CSV_COLUMNS = [
+  "record_type", // current | sample | team_member
+  "timestamp",
+  "team_id",
+  "start_of_month",
+  "used_requests",
+  "max_requests",
+  "remaining_requests",
+  "spend_cents",
+  "hard_limit_dollars",
+  "member_user_id",
+  "member_email",
+  "member_name",
+  "member_role",
+];
+
+/**
+ * Exports usage data to a CSV or JSON file chosen by the user.
+ * Asks for the format, the date range and the destination in turn.
+ */
+export async function exportUsage(): Promise<void> {
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: "CSV", description: "One row per record", format: "csv" },
+      { label: "JSON", description: "Structured document", format: "json" },
+    ],
+    { placeHolder: "Export format" },
+  );
+  if (!format) {
+    return;
+  }
+
+  const range = await pickExportRange();
+  if (!range) {
+    return;
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(
+      vscode.workspace.workspaceFolders?.[0]?.uri ??
+        vscode.Uri.file(os.homedir()),
+      `cursor-usage-${today}.${format.format}`,
+    ),
+    filters: format.format === "csv" ? { CSV: ["csv"] } : { JSON: ["json"] },
+    saveLabel: "Export",
+  });
+  if (!target) {
+    return;
+  }
+
+  try {
+    const data = buildUsageExport(
+      history.getSnapshots(),
+      teamMembersView.getTeamSpend(),
+      range,
+    );
+    const contents =
+      format.format === "csv"
+        ? toCsv(data)
+        : `${JSON.stringify(data, null, 2)}\n`;
+    await vscode.workspace.fs.writeFile(target, Buffer.from(contents, "utf8"));
+
+    logger.info(`Exported ${data.samples.length} samples to ${target.fsPath}`);
+    vscode.window.showInformationMessage(
+      `Exported ${data.samples.length} usage samples to ${target.fsPath}`,
+    );
+  } catch (error: any) {
+    logger.error(`Failed to export usage: ${error.message}`);
+    vscode.window.showErrorMessage(`Failed to export usage: ${error.message}`);
+  }
+}
+
+/**
+ * Asks the user which date range to export.
+ * @returns The chosen range, or undefined if the user cancelled.
+ */
+async function pickExportRange(): Promise<ExportRange | undefined> {
+  const now = new Date();
+  const latest = history.getLatestSnapshot();
+  const choices = [
+    {
+      label: "Current billing cycle",
+      range: latest
+        ? { from: new Date(latest.startOfMonth), to: now }
+        : undefined,
+    },
+    {
+      label: "Last 30 days",
+      range: { from: new Date(now.getTime() - 30 * 24 * 3600 * 1000), to: now },
+    },
+    { label: "All recorded history", range: { to: now } },
+    { label: "Custom range...", range: undefined },
+  ].filter((choice) => choice.range || choice.label === "Custom range...");
+
+  const picked = await vscode.window.showQuickPick(choices, {
+    placeHolder: "Date range to export",
+  });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.range) {
+    return picked.range;
+  }
+
+  const from = await promptDate("Export from (inclusive)");
+  if (!from) {
+    return undefined;
+  }
+  const to = await promptDate("Export to (inclusive)", from);
+  if (!to) {
+    return undefined;
+  }
+  // Include the whole end day
+  return { from, to: new Date(to.getTime() + 24 * 3600 * 1000 - 1) };
+}
+
+/**
+ * Prompts for a date in YYYY-MM-DD format.
+ * @param prompt The input box prompt.
+ * @param notBefore Optional earliest accepted date.
+ * @returns The date at local midnight, or undefined if the user cancelled.
+ */
+async function promptDate(
+  prompt: string,
+  notBefore?: Date,
+): Promise<Date | undefined> {
+  const text = await vscode.window.showInputBox({
+    prompt,
+    placeHolder: "YYYY-MM-DD",
+    validateInput: (value) => {
+      const date = parseDate(value);
+      if (!date) {
+        return "Please enter a date as YYYY-MM-DD.";
+      }
+      if (notBefore && date < notBefore) {
+        return "The end date must not be before the start date.";
+      }
+      return null;
+    },
+  });
+  return text === undefined ? undefined : parseDate(text);
+}
+
+/**
+ * Parses a YYYY-MM-DD string as local midnight.
+ */
+function parseDate(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const date = new Date(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10) - 1,
+    parseInt(match[3], 10),
+  );
+  return isNaN(date.getTime()) || date.getDate() !== parseInt(match[3], 10)
+    ? undefined
+    : date;
+}
+
+/**
+ * Builds the export document from the recorded history and team spend.
+ * @param snapshots All recorded snapshots, oldest first
+ * @param teamSpend The latest team spend data, if any
+ * @param range The range of samples to include
+ * @param exportedAt When the export is made (defaults to now)
+ */
+export function buildUsageExport(
+  snapshots: UsageSnapshot[],
+  teamSpend: TeamSpendSnapshot | undefined,
+  range: ExportRange,
+  exportedAt: Date = new Date(),
+): UsageExport {
+  const latest = snapshots[snapshots.length - 1];
+  const samples = snapshots.filter(
+    (s) =>
+      (!range.from || s.timestamp >= range.from.getTime()) &&
+      s.timestamp <= range.to.getTime(),
+  );
+
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    range: {
+      from: range.from ? range.from.toISOString() : null,
+      to: range.to.toISOString(),
+    },
+    current: latest ? toExportedSample(latest) : null,
+    samples: samples.map(toExportedSample),
+    teamMemberSpend: teamSpend
+      ? {
+          teamId: teamSpend.teamId,
+          fetchedAt: teamSpend.fetchedAt.toISOString(),
+          members: teamSpend.members.map((member) => ({
+            userId: member.userId ?? null,
+            email: member.email,
+            name: member.name ?? null,
+            role: member.role ?? null,
+            fastPremiumRequests: member.fastPremiumRequests ?? null,
+            spendCents: member.spendCents ?? null,
+            hardLimitOverrideDollars: member.hardLimitOverrideDollars ?? null,
+          })),
+        }
+      : null,
+  };
+}
+
+/**
+ * Converts a history snapshot to its exported form.
+ */
+function toExportedSample(snapshot: UsageSnapshot): ExportedSample {
+  return {
+    timestamp: new Date(snapshot.timestamp).toISOString(),
+    teamId: snapshot.teamId ?? null,
+    startOfMonth: snapshot.startOfMonth,
+    usedRequests: snapshot.usedRequests,
+    maxRequests: snapshot.maxRequests,
+    remainingRequests: Math.max(
+      0,
+      snapshot.maxRequests - snapshot.usedRequests,
+    ),
+    spendCents: snapshot.spendCents ?? null,
+    hardLimitDollars: snapshot.hardLimitDollars ?? null,
+  };
+}
+
+/**
+ * Flattens the export document into CSV with a fixed header (CSV_COLUMNS).
+ * @param data The export document
+ * @returns The CSV text, including a trailing newline
+ */
+export function toCsv(data: UsageExport): string {
+  const rows: (string | number | null)[][] = [CSV_COLUMNS];
+  const sampleRow = (type: string, s: ExportedSample) => [
+    type,
+    s.timestamp,
+    s.teamId,
+    s.startOfMonth,
+    s.usedRequests,
+    s.maxRequests,
+    s.remainingRequests,
+    s.spendCents,
+    s.hardLimitDollars,
+    null,
+    null,
+    null,
+    null,
+  ];
+
+  if (data.current) {
+    rows.push(sampleRow("current", data.current));
+  }
+  data.samples.forEach((s) => rows.push(sampleRow("sample", s)));
+  if (data.teamMemberSpend) {
+    const { teamId, fetchedAt } = data.teamMemberSpend;
+    data.teamMemberSpend.members.forEach((m) =>
+      rows.push([
+        "team_member",
+        fetchedAt,
+        teamId,
+        null,
+        m.fastPremiumRequests,
+        null,
+        null,
+        m.spendCents,
+        m.hardLimitOverrideDollars,
+        m.userId,
+        m.email,
+        m.name,
+        m.role,
+      ]),
+    );
+  }
+
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Escapes a single CSV field (RFC 4180). Null becomes an empty field, and text
+ * that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+function escapeCsv(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,14 +1,57 @@
 import * as vscode from "vscode";
-import * as crypto from "crypto";
+import * as fs from "fs";
 import * as api from "./api";
 import * as statusBar from "./statusBar";
 import * as config from "./configuration";
+import * as history from "./history";
+import * as dashboard from "./dashboard";
+import * as alerts from "./alerts";
+import * as teamMembersView from "./teamMembersView";
+import * as circuitBreaker from "./circuitBreaker";
+import * as forecast from "./forecast";
+import * as windowCoordinator from "./windowCoordinator";
+import * as notifier from "./notifier";
+import * as lastKnownGood from "./lastKnownGood";
+import * as refreshScheduler from "./refreshScheduler";
+import * as refreshCoordinator from "./refreshCoordinator";
+import * as usageState from "./usageState";
+import * as logger from "./logger";
+import * as session from "./session";
+import { renderUsageMessage } from "./notificationMessage";
+import { exportUsage } from "./export";
 import {
+  ADDITIONAL_TEAMS_ITEM,
+  TeamPickItem,
+  getAdditionalTeamPickItems,
+  getTeamPickItems,
+  resolveAdditionalTeamPick,
+  resolveTeamPick,
+} from "./teamPicker";
+import { BillingCycle, getBillingCycle } from "./billingCycle";
+import {
+  MAX_DIGEST_ATTEMPTS,
+  getDueSlot,
+  getNextDigestTime,
+  isQuietTime,
+  isSlotExpired,
+} from "./notificationSchedule";
+import { createNodeTransport } from "./transport";
+import { AuthExpiredError, CursorApiError, classifyError } from "./errors";
+import {
+  PREMIUM_MODEL,
+  formatTokens,
+  getModelBuckets,
+  selectStatusBarBucket,
+} from "./modelUsage";
+import {
+  Team,
   TeamMemberSpend,
   UserUsageResponse,
   UserMeResponse,
   TeamsResponse,
   TeamDetails,
+  TeamHardLimit,
+  SpendData,
 } from "./models";
 
 // Define an interface for Notification state object for type safety
@@ -16,12 +59,16 @@ interface NotificationState {
   date: string;
   attempts: number;
   sent: boolean;
+  slot?: string; // digest time the state refers to, only set when several are configured
 }
 
 const NOTIFICATION_STATE_KEY = "dailyNotificationState";
+const DEFERRED_ALERTS_KEY = "deferredAlerts";
 const NOTIFICATION_AUTO_CLOSE_TIME = 30000;
 const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
-let refreshTimer: NodeJS.Timeout | undefined;
+let digestTimer: NodeJS.Timeout | undefined;
+// Settles once activation has checked for a changed cookie or team; refreshes wait for it
+let authChangeChecked: Promise<void> = Promise.resolve();
 
 // Cache-related constants
 const LAST_KNOWN_COOKIE_HASH_KEY = "lastKnownCookieHash";
@@ -93,39 +140,12 @@ async function clearCached(
 }
 
 /**
- * Creates a SHA-256 hash of the cookie for change detection
- * @param cookie Cookie string to hash
- * @returns SHA-256 hash as hex string
- */
-function hashCookie(cookie: string): string {
-  return crypto.createHash("sha256").update(cookie).digest("hex");
-}
-
-/**
- * Calculates the next reset date based on the start of month date.
+ * Calculates the current billing cycle, counting days in the configured timezone.
  * @param startOfMonth ISO date string representing when the current cycle started
- * @returns Object containing reset date and days remaining
+ * @returns The cycle, including the reset date and days remaining
  */
-export function calculateResetInfo(startOfMonth: string): {
-  resetDate: Date;
-  daysRemaining: number;
-  resetDateStr: string;
-} {
-  const startDate = new Date(startOfMonth);
-
-  // Calculate next reset date by adding 1 month
-  const resetDate = new Date(startDate);
-  resetDate.setMonth(resetDate.getMonth() + 1);
-
-  // Calculate days remaining
-  const now = new Date();
-  const timeDiff = resetDate.getTime() - now.getTime();
-  const daysRemaining = Math.ceil(timeDiff / (1000 * 3600 * 24));
-
-  // Format reset date as YYYY-MM-DD
-  const resetDateStr = resetDate.toISOString().split("T")[0];
-
-  return { resetDate, daysRemaining, resetDateStr };
+export function calculateResetInfo(startOfMonth: string): BillingCycle {
+  return getBillingCycle(startOfMonth, new Date(), config.getTimeZone());
 }
 
 /**
@@ -137,11 +157,12 @@ async function checkAndClearCacheOnAuthChange(
   context: vscode.ExtensionContext,
 ): Promise<void> {
   const cookie = await context.secrets.get("cursor.cookie");
+  logger.addSecret(cookie);
   if (!cookie) {
     return; // No cookie to check
   }
 
-  const currentCookieHash = hashCookie(cookie);
+  const currentCookieHash = session.hashCookie(cookie);
   const lastKnownCookieHash = context.globalState.get<string>(
     LAST_KNOWN_COOKIE_HASH_KEY,
   );
@@ -151,7 +172,7 @@ async function checkAndClearCacheOnAuthChange(
 
   // Check if cookie has changed
   if (lastKnownCookieHash && lastKnownCookieHash !== currentCookieHash) {
-    console.log("[Cursor Usage] Cookie changed - clearing caches");
+    logger.info("Cookie changed - clearing caches");
     await clearAllCaches(context);
   }
 
@@ -163,9 +184,7 @@ async function checkAndClearCacheOnAuthChange(
       : undefined;
 
   if (lastKnownTeamId !== currentTeamIdNum) {
-    console.log(
-      "[Cursor Usage] Team ID changed - clearing team-related caches",
-    );
+    logger.info("Team ID changed - clearing team-related caches");
     await clearTeamCaches(context);
   }
 
@@ -177,6 +196,23 @@ async function checkAndClearCacheOnAuthChange(
   await context.globalState.update(LAST_KNOWN_TEAM_ID_KEY, currentTeamIdNum);
 }
 
+/**
+ * Shows the usage of the last successful refresh as stale, unless a refresh
+ * already showed something newer.
+ * @param context VS Code extension context
+ */
+function showLastKnownGood(context: vscode.ExtensionContext): void {
+  const lastGood = lastKnownGood.getLastKnownGood(context);
+  if (lastGood && usageState.getUsageState().kind === "loading") {
+    showUsageState({
+      kind: "usage",
+      usage: lastGood.usage,
+      asOf: lastGood.timestamp,
+      stale: {},
+    });
+  }
+}
+
 /**
  * Clears all caches
  * @param context VS Code extension context
@@ -187,10 +223,14 @@ async function clearAllCaches(context: vscode.ExtensionContext): Promise<void> {
 
   // Clear team-specific caches (we don't know team IDs, so clear pattern)
   const allKeys = context.globalState.keys();
-  const teamCacheKeys = allKeys.filter((key) =>
-    key.startsWith("cachedTeamDetails_"),
+  const teamCacheKeys = allKeys.filter(
+    (key) =>
+      key.startsWith("cachedTeamDetails_") ||
+      key.startsWith("cachedTeamHardLimit_"),
   );
   await clearCached(context, teamCacheKeys);
+  // The last known usage belongs to the previous account
+  await lastKnownGood.clearLastKnownGood(context);
 }
 
 /**
@@ -205,10 +245,14 @@ async function clearTeamCaches(
 
   // Clear team-specific caches (we don't know team IDs, so clear pattern)
   const allKeys = context.globalState.keys();
-  const teamDetailCacheKeys = allKeys.filter((key) =>
-    key.startsWith("cachedTeamDetails_"),
+  const teamDetailCacheKeys = allKeys.filter(
+    (key) =>
+      key.startsWith("cachedTeamDetails_") ||
+      key.startsWith("cachedTeamHardLimit_"),
   );
   await clearCached(context, teamDetailCacheKeys);
+  // The last known usage belongs to the previous team
+  await lastKnownGood.clearLastKnownGood(context);
 }
 
 /**
@@ -216,12 +260,32 @@ async function clearTeamCaches(
  * It's called by VS Code when the extension is activated.
  */
 export function activate(context: vscode.ExtensionContext) {
-  console.log("[Cursor Usage] Extension is now active.");
+  const logChannel = vscode.window.createOutputChannel("Cursor Usage", {
+    log: true,
+  });
+  logger.initializeLogger(logChannel);
+  logger.info("Extension is now active.");
+  // The channel's level decides what is logged; the setting follows it
+  syncLogLevelSetting(logChannel.logLevel);
+  context.subscriptions.push(
+    logChannel.onDidChangeLogLevel(syncLogLevelSetting),
+  );
 
   statusBar.createStatusBarItem();
+  configureApiTransport();
+  warnAboutInvalidThresholds();
+
+  // Check for authentication changes first, which forgets the last known usage
+  // of another account, then show the last known usage until the first refresh completes
+  authChangeChecked = checkAndClearCacheOnAuthChange(context)
+    .then(() => showLastKnownGood(context))
+    .catch((error) =>
+      logger.error("Failed to check for authentication changes:", error),
+    );
+  context.subscriptions.push(...teamMembersView.createTeamMembersView());
 
-  // Check for authentication changes and clear cache if needed
-  checkAndClearCacheOnAuthChange(context);
+  // Load persisted usage history (snapshots recorded before it finishes wait for it)
+  history.initializeHistory(context);
 
   // Register all commands and add them to subscriptions
   const insertCookieCommand = vscode.commands.registerCommand(
@@ -230,7 +294,11 @@ export function activate(context: vscode.ExtensionContext) {
   );
   const refreshCommand = vscode.commands.registerCommand(
     "cursorUsage.refresh",
-    () => refreshUsage(context),
+    () => {
+      // A manual refresh always tries the API, even while polling is paused
+      circuitBreaker.resetCircuit();
+      return refreshScheduler.refreshNow();
+    },
   );
   const openSettingsCommand = vscode.commands.registerCommand(
     "cursorUsage.openSettings",
@@ -248,11 +316,32 @@ export function activate(context: vscode.ExtensionContext) {
     "cursorUsage.setPollMinutes",
     setPollMinutes,
   );
+  const selectTeamCommand = vscode.commands.registerCommand(
+    "cursorUsage.selectTeam",
+    () => selectTeam(context),
+  );
+  const selectStatusBarModelCommand = vscode.commands.registerCommand(
+    "cursorUsage.selectStatusBarModel",
+    selectStatusBarModel,
+  );
+  const openDashboardCommand = vscode.commands.registerCommand(
+    "cursorUsage.openDashboard",
+    dashboard.openDashboard,
+  );
+  const exportUsageCommand = vscode.commands.registerCommand(
+    "cursorUsage.exportUsage",
+    exportUsage,
+  );
   const testNotificationCommand = vscode.commands.registerCommand(
     "cursorUsage.testNotification",
     () => testNotification(context),
   );
+  const showLogsCommand = vscode.commands.registerCommand(
+    "cursorUsage.showLogs",
+    logger.showLogs,
+  );
   context.subscriptions.push(
+    logChannel,
     statusBar.getStatusBarItem(),
     insertCookieCommand,
     refreshCommand,
@@ -260,13 +349,36 @@ export function activate(context: vscode.ExtensionContext) {
     forceRefreshCommand,
     setTeamIdCommand,
     setPollMinutesCommand,
+    selectTeamCommand,
+    selectStatusBarModelCommand,
+    openDashboardCommand,
+    exportUsageCommand,
     testNotificationCommand,
+    showLogsCommand,
   );
 
-  // Initial refresh and setup the timer for periodic refreshes.
-  refreshUsage(context);
-  setupRefreshTimer(context);
-  initializeNotificationService(context);
+  // Polls adapt to window focus and to how close usage is to a threshold
+  refreshScheduler.initializeScheduler({
+    refresh: () => requestRefresh(context),
+    getPollMinutes: config.getPollMinutes,
+    isUsageNearThreshold: () => isUsageNearThreshold(context),
+  });
+
+  // Only one window polls and sends notifications; the others show what it publishes.
+  // The leader polls as if focused while the user works in any window.
+  windowCoordinator.startCoordination(context, {
+    onLeadershipChange: (isLeader) =>
+      isLeader ? startPolling(context) : stopPolling(),
+    onSharedState: (state) => applySharedState(context, state),
+    onFocusChange: (anyWindowFocused) =>
+      refreshScheduler.setWindowFocused(anyWindowFocused),
+  });
+  windowCoordinator.setWindowFocused(vscode.window.state.focused);
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState((state) =>
+      windowCoordinator.setWindowFocused(state.focused),
+    ),
+  );
 
   // Initialize notification cleanup system
   initializeNotificationCleanup();
@@ -276,8 +388,40 @@ export function activate(context: vscode.ExtensionContext) {
     async (event) => {
       let shouldRefresh = false;
 
+      if (
+        event.affectsConfiguration("cursorUsage.logLevel") &&
+        config.getLogLevel() !== logger.getLogLevel()
+      ) {
+        vscode.window
+          .showInformationMessage(
+            'The Cursor Usage log follows the level of its Output channel. Change it with "Developer: Set Log Level…".',
+            "Set Log Level",
+          )
+          .then((choice) => {
+            if (choice === "Set Log Level") {
+              vscode.commands.executeCommand("workbench.action.setLogLevel");
+            }
+          });
+      }
+
       if (event.affectsConfiguration("cursorUsage.pollMinutes")) {
-        setupRefreshTimer(context);
+        refreshScheduler.reschedule();
+      }
+
+      if (
+        event.affectsConfiguration("cursorUsage.apiBaseUrl") ||
+        event.affectsConfiguration("cursorUsage.caBundlePath") ||
+        event.affectsConfiguration("http.proxy") ||
+        event.affectsConfiguration("http.proxyStrictSSL") ||
+        event.affectsConfiguration("http.noProxy")
+      ) {
+        configureApiTransport();
+        shouldRefresh = true;
+      }
+
+      if (event.affectsConfiguration("cursorUsage.thresholds")) {
+        warnAboutInvalidThresholds();
+        shouldRefresh = true;
       }
 
       if (event.affectsConfiguration("cursorUsage.teamId")) {
@@ -286,57 +430,248 @@ export function activate(context: vscode.ExtensionContext) {
         if (teamId) {
           context.workspaceState.update("cursor.teamId", undefined);
         }
-        console.log(
-          "[Cursor Usage] Clearing team caches on team ID configuration change",
-        );
+        logger.info("Clearing team caches on team ID configuration change");
         await clearTeamCaches(context);
         shouldRefresh = true;
       }
 
+      if (
+        event.affectsConfiguration("cursorUsage.additionalTeamIds") ||
+        event.affectsConfiguration("cursorUsage.statusBarModel")
+      ) {
+        shouldRefresh = true;
+      }
+
+      // Display settings only change how the current usage is rendered
+      if (
+        event.affectsConfiguration("cursorUsage.statusBarDisplayMode") ||
+        event.affectsConfiguration("cursorUsage.statusBarFormat") ||
+        event.affectsConfiguration("cursorUsage.timeZone")
+      ) {
+        showUsageState(usageState.getUsageState());
+        dashboard.updateDashboard();
+      }
+
+      if (
+        event.affectsConfiguration("cursorUsage.notifications") &&
+        windowCoordinator.isLeader()
+      ) {
+        scheduleNextDigest(context);
+      }
+
       if (shouldRefresh) {
-        refreshUsage(context);
+        if (windowCoordinator.isLeader()) {
+          // A refresh already running still uses the old settings
+          requestRefresh(context, { supersede: true });
+        } else {
+          // Followers re-render the shared state with their own display settings
+          const state = windowCoordinator.getSharedState();
+          if (state) {
+            applySharedState(context, state);
+          }
+        }
       }
     },
   );
   context.subscriptions.push(configChangeListener);
 }
 
+/**
+ * Warns about threshold settings that are ignored because they are invalid.
+ */
+function warnAboutInvalidThresholds(): void {
+  const problems = config.validateAlertThresholds();
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(
+      `Invalid Cursor Usage threshold settings: ${problems.join(" ")}`,
+    );
+  }
+}
+
+/**
+ * Writes the log Output channel's level to the `cursorUsage.logLevel` setting,
+ * so the setting shows what is actually logged.
+ * @param channelLevel The channel's level
+ */
+function syncLogLevelSetting(channelLevel: vscode.LogLevel): void {
+  const level = logger.toLogLevel(channelLevel);
+  if (config.getLogLevel() === level) {
+    return;
+  }
+  vscode.workspace
+    .getConfiguration("cursorUsage")
+    .update("logLevel", level, vscode.ConfigurationTarget.Global)
+    .then(undefined, (error) =>
+      logger.warn(`Could not update the logLevel setting: ${error.message}`),
+    );
+}
+
+/**
+ * Points the API layer at the configured base URL and builds its transport
+ * from the proxy and CA bundle settings.
+ */
+function configureApiTransport(): void {
+  const network = config.getNetworkSettings();
+
+  let ca: string | undefined;
+  if (network.caBundlePath) {
+    try {
+      ca = fs.readFileSync(network.caBundlePath, "utf8");
+    } catch (error: any) {
+      logger.error(
+        `Failed to read CA bundle ${network.caBundlePath}: ${error.message}`,
+      );
+      vscode.window.showWarningMessage(
+        `Cursor Usage could not read the CA bundle at ${network.caBundlePath}: ${error.message}`,
+      );
+    }
+  }
+
+  const baseUrl = config.getApiBaseUrl();
+  api.configureApi({
+    baseUrl,
+    transport: createNodeTransport({
+      proxyUrl: network.proxyUrl,
+      noProxy: network.noProxy,
+      strictSSL: network.strictSSL,
+      ca,
+    }),
+  });
+  logger.info(
+    `API configured for ${baseUrl}${network.proxyUrl ? " via proxy" : ""}`,
+  );
+}
+
 /**
  * This function is called when the extension is deactivated.
- * It cleans up resources, like clearing the refresh timer.
+ * It cleans up resources, like stopping polling and cancelling a running refresh.
  */
 export function deactivate() {
-  console.log("[Cursor Usage] Extension is now deactivated.");
-  if (refreshTimer) {
-    clearInterval(refreshTimer);
+  logger.info("Extension is now deactivated.");
+  stopPolling();
+  windowCoordinator.stopCoordination();
+  dashboard.disposeDashboard();
+}
+
+/**
+ * Starts polling and the digest schedule once this window becomes the leader.
+ * @param context VS Code extension context
+ */
+function startPolling(context: vscode.ExtensionContext): void {
+  refreshScheduler.startScheduler();
+  initializeNotificationService(context);
+}
+
+/**
+ * Stops polling and the digest schedule, e.g. when another window took over.
+ */
+function stopPolling(): void {
+  refreshScheduler.stopScheduler();
+  refreshCoordinator.cancelRefresh();
+  if (digestTimer) {
+    clearTimeout(digestTimer);
+    digestTimer = undefined;
+  }
+}
+
+/**
+ * Shows the state another window published in this window's status bar, and
+ * reloads the usage history it recorded alongside.
+ * @param context VS Code extension context
+ * @param state The published state
+ */
+async function applySharedState(
+  context: vscode.ExtensionContext,
+  state: windowCoordinator.SharedUsageState,
+): Promise<void> {
+  if (state.usage) {
+    showUsageState({
+      kind: "usage",
+      usage: state.usage,
+      asOf: state.timestamp,
+    });
+    await history.initializeHistory(context);
+    dashboard.updateDashboard();
+  } else if (state.error) {
+    showRefreshFailure(
+      context,
+      new CursorApiError(
+        state.error.message,
+        state.error.kind,
+        state.error.statusCode,
+      ),
+    );
+  } else if (state.warning) {
+    showUsageState({ kind: "warning", warning: state.warning });
+  }
+}
+
+/**
+ * Records the usage state and shows it in the status bar. Every status bar
+ * update goes through here, so notifications see the same state the status
+ * bar shows.
+ * @param state The new usage state
+ */
+function showUsageState(state: usageState.UsageState): void {
+  usageState.setUsageState(state);
+  switch (state.kind) {
+    case "usage":
+      statusBar.updateStatusBar(
+        state.usage.remainingRequests,
+        state.usage.totalRequests,
+        state.usage.spendCents,
+        state.usage.hardLimitDollars,
+        calculateResetInfo(state.usage.startOfMonth),
+        state.usage.teamSummaries,
+        state.usage.modelBuckets,
+        state.usage.statusBarModel,
+        state.usage.forecast,
+        state.stale ? { asOf: state.asOf, ...state.stale } : undefined,
+      );
+      break;
+    case "error":
+      statusBar.setStatusBarApiError(state.error);
+      break;
+    case "paused":
+      statusBar.setStatusBarPaused(state.circuit);
+      break;
+    case "warning":
+      statusBar.setStatusBarWarning(state.warning);
+      break;
   }
 }
 
 function initializeNotificationService(context: vscode.ExtensionContext) {
-  // 1. Run an immediate check on startup.
+  // 1. Run an immediate check on startup, which catches up on a missed digest.
   checkAndSendNotification(context);
 
-  // 2. Schedule the recurring check for 9 AM daily.
-  const now = new Date();
-  const nextNineAM = new Date();
-  nextNineAM.setHours(9, 0, 0, 0);
+  // 2. Schedule the next digest.
+  scheduleNextDigest(context);
+}
 
-  if (now > nextNineAM) {
-    nextNineAM.setDate(nextNineAM.getDate() + 1);
+/**
+ * Arms a timer for the next digest in the notification schedule, replacing any
+ * pending one. Each digest re-arms the timer for the one after it.
+ * @param context VS Code extension context
+ */
+function scheduleNextDigest(context: vscode.ExtensionContext) {
+  if (digestTimer) {
+    clearTimeout(digestTimer);
+    digestTimer = undefined;
   }
 
-  const timeUntilNextNineAM = nextNineAM.getTime() - now.getTime();
-
-  setTimeout(() => {
-    checkAndSendNotification(context);
+  const now = new Date();
+  const next = getNextDigestTime(now, config.getNotificationSchedule());
+  if (!next) {
+    logger.info("Usage digest is turned off");
+    return;
+  }
 
-    setInterval(
-      () => {
-        checkAndSendNotification(context);
-      },
-      24 * 60 * 60 * 1000,
-    ); // 24 hours
-  }, timeUntilNextNineAM);
+  logger.info(`Next usage digest scheduled for ${next.toLocaleString()}`);
+  digestTimer = setTimeout(async () => {
+    await checkAndSendNotification(context);
+    scheduleNextDigest(context);
+  }, next.getTime() - now.getTime());
 }
 
 export async function checkAndSendNotification(
@@ -344,28 +679,41 @@ export async function checkAndSendNotification(
   testTime?: Date, // Optional parameter for testing
 ) {
   const now = testTime || new Date();
-  const todayStr = now.toISOString().split("T")[0]; // YYYY-MM-DD format
+  const schedule = config.getNotificationSchedule();
+
+  // --- GUARD CLAUSES ---
+  // 1. No digest due yet (before the digest time, not a digest day, or turned off)? Do nothing.
+  const dueSlot = getDueSlot(now, schedule);
+  if (!dueSlot) {
+    return;
+  }
 
   let state = context.globalState.get<NotificationState>(
     NOTIFICATION_STATE_KEY,
   );
 
-  // If it's a new day, reset the state
-  if (!state || state.date !== todayStr) {
-    state = { date: todayStr, attempts: 0, sent: false };
+  // If it's a new digest slot, reset the state
+  if (!state || state.date !== dueSlot.date || state.slot !== dueSlot.slot) {
+    state = { date: dueSlot.date, attempts: 0, sent: false };
+    if (dueSlot.slot) {
+      state.slot = dueSlot.slot;
+    }
   }
 
-  // --- GUARD CLAUSES ---
-  // 1. Already sent today? Do nothing.
+  // 2. Already sent for this slot? Do nothing.
   if (state.sent) {
     return;
   }
-  // 2. Reached attempt limit? Do nothing.
-  if (state.attempts >= 3) {
+  // 3. Reached attempt limit? Do nothing.
+  if (state.attempts >= MAX_DIGEST_ATTEMPTS) {
+    return;
+  }
+  // 4. Quiet hours? Wait for the timer that fires when they end.
+  if (isQuietTime(now, schedule.quietHours)) {
     return;
   }
-  // 3. Is it before 9 AM? Do nothing.
-  if (now.getHours() < 9) {
+  // 5. Missed while the editor was closed and catch-up is off? Skip this slot.
+  if (isSlotExpired(dueSlot, now, schedule)) {
     return;
   }
 
@@ -380,38 +728,31 @@ export async function checkAndSendNotification(
 
       // Mark as sent ONLY on success
       state.sent = true;
-      console.log("Daily usage notification sent successfully.");
+      logger.info("Daily usage notification sent successfully.");
     } else {
-      console.log(
+      logger.info(
         "Could not retrieve valid usage stats. Skipping notification.",
       );
     }
   } catch (error) {
-    console.error("Failed to send daily usage notification:", error);
+    logger.error("Failed to send daily usage notification:", error);
   } finally {
     // ALWAYS update the state to save attempt count and sent status
     context.globalState.update(NOTIFICATION_STATE_KEY, state);
   }
 }
 
+/**
+ * Refreshes usage for the daily digest.
+ * @param context VS Code extension context
+ * @returns The refreshed usage, or null while it is loading, failing, stale
+ * or waiting for setup (no digest is sent then)
+ */
 export async function getUsageStats(
   context: vscode.ExtensionContext,
-): Promise<string | null> {
-  await refreshUsage(context);
-  const statusBarItem = statusBar.getStatusBarItem();
-
-  // Don't show notification for loading, error, or initial setup states.
-  if (
-    statusBarItem.text.includes("Loading") ||
-    statusBarItem.text.includes("Failed") ||
-    statusBarItem.text.includes("Set Cookie") ||
-    statusBarItem.text.includes("Team ID?")
-  ) {
-    return null;
-  }
-
-  // Return the EXACT same text as shown in status bar (no custom formatting)
-  return statusBarItem.text;
+): Promise<windowCoordinator.SharedUsage | null> {
+  await requestRefresh(context);
+  return usageState.getFreshUsage(usageState.getUsageState()) ?? null;
 }
 
 /**
@@ -431,24 +772,110 @@ async function insertCookie(context: vscode.ExtensionContext): Promise<void> {
     });
 
     if (cookieValue && cookieValue.trim()) {
-      // Securely store the cookie.
-      await context.secrets.store("cursor.cookie", cookieValue.trim());
+      const cookie = cookieValue.trim();
+      logger.addSecret(cookie);
+      // Securely store the cookie, once Cursor accepts it.
+      if (!(await session.saveCookie(context, cookie, validateCookie))) {
+        return;
+      }
       vscode.window.showInformationMessage("Cookie saved successfully!");
 
       // Clear all caches on cookie update
-      console.log("[Cursor Usage] Clearing caches on cookie change");
+      logger.info("Clearing caches on cookie change");
       await clearAllCaches(context);
 
-      await refreshUsage(context);
+      await requestRefresh(context, { supersede: true });
     } else {
       vscode.window.showWarningMessage("No cookie value provided.");
     }
   } catch (error: any) {
-    console.error(`[Cursor Usage] Failed to save cookie: ${error.message}`);
+    logger.error(`Failed to save cookie: ${error.message}`);
     vscode.window.showErrorMessage(`Failed to save cookie: ${error.message}`);
   }
 }
 
+/**
+ * Checks a cookie against auth/me before it is saved.
+ * A rejected cookie is never saved; if Cursor cannot be reached, the user may save it anyway.
+ * @param cookie The cookie value entered by the user.
+ * @returns True if the cookie should be saved.
+ */
+async function validateCookie(cookie: string): Promise<boolean> {
+  try {
+    const userMe = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Validating Cursor session cookie...",
+      },
+      () => api.fetchUserMe(cookie),
+    );
+    logger.info(`Cookie validated for: ${userMe.email}`);
+    return true;
+  } catch (error) {
+    const apiError = classifyError(error);
+    if (session.isSessionRejected(apiError)) {
+      logger.warn(`New cookie was rejected: ${apiError.message}`);
+      const choice = await vscode.window.showErrorMessage(
+        "Cursor rejected this cookie. Make sure you copied the whole WorkosCursorSessionToken value from a logged-in session.",
+        "Try Again",
+      );
+      if (choice === "Try Again") {
+        vscode.commands.executeCommand("cursorUsage.insertCookie");
+      }
+      return false;
+    }
+
+    logger.warn(
+      `Could not validate cookie (${apiError.kind}): ${apiError.message}`,
+    );
+    const choice = await vscode.window.showWarningMessage(
+      `Could not validate the cookie: ${apiError.message}`,
+      "Save Anyway",
+    );
+    return choice === "Save Anyway";
+  }
+}
+
+/**
+ * Switches to the session expired state and pauses polling until a new cookie is stored.
+ * @param context VS Code extension context
+ * @param cookie The cookie Cursor rejected
+ * @param error The error the request failed with
+ */
+async function handleSessionExpired(
+  context: vscode.ExtensionContext,
+  cookie: string,
+  error: unknown,
+): Promise<void> {
+  const apiError = classifyError(error);
+  logger.warn(
+    `Session cookie rejected (${apiError.message}) - pausing updates until a new cookie is set`,
+  );
+  await session.pauseSession(context.globalState, cookie);
+  showUsageState({
+    kind: "error",
+    error: new AuthExpiredError(apiError.message, apiError.statusCode),
+  });
+  windowCoordinator.publishSharedState({
+    error: {
+      kind: "authExpired",
+      message: apiError.message,
+      statusCode: apiError.statusCode,
+    },
+  });
+
+  vscode.window
+    .showWarningMessage(
+      "Your Cursor session has expired. Usage updates are paused until you enter a new session cookie.",
+      "Enter Cookie",
+    )
+    .then((choice) => {
+      if (choice === "Enter Cookie") {
+        vscode.commands.executeCommand("cursorUsage.insertCookie");
+      }
+    });
+}
+
 /**
  * Opens the VS Code settings UI focused on this extension's settings.
  */
@@ -459,85 +886,182 @@ function openSettings(): void {
   );
 }
 
+/**
+ * Refreshes usage through the refresh coordinator, so concurrent requests
+ * share one refresh. A finished refresh that is still current is recorded
+ * with the scheduler, which times the next poll from it.
+ * @param context VS Code extension context
+ * @param options Supersede a running refresh instead of joining it (optional)
+ */
+function requestRefresh(
+  context: vscode.ExtensionContext,
+  options: refreshCoordinator.RefreshRequestOptions = {},
+): Promise<void> {
+  return refreshCoordinator.requestRefresh(async (run) => {
+    await refreshUsage(context, run);
+    if (refreshCoordinator.isCurrent(run)) {
+      refreshScheduler.recordRefresh();
+    }
+  }, options);
+}
+
+/**
+ * Checks whether a refresh was cancelled or superseded by a newer one, in
+ * which case it must not update anything.
+ * @param run The refresh to check
+ */
+function isRefreshObsolete(run: refreshCoordinator.RefreshRun): boolean {
+  if (refreshCoordinator.isCurrent(run)) {
+    return false;
+  }
+  logger.info(
+    `Refresh #${run.sequence} was cancelled or superseded - discarding it`,
+  );
+  return true;
+}
+
 /**
  * The core logic for fetching usage data and updating the UI using individual user endpoints.
+ * Only call it through requestRefresh. Before each update it checks that the
+ * refresh is still current, so a slow response never overwrites a newer one.
+ * @param context VS Code extension context
+ * @param run The refresh, whose signal cancels its API requests
  */
-async function refreshUsage(context: vscode.ExtensionContext): Promise<void> {
-  console.log("[Cursor Usage] Attempting to refresh usage...");
+async function refreshUsage(
+  context: vscode.ExtensionContext,
+  run: refreshCoordinator.RefreshRun,
+): Promise<void> {
+  logger.info(`Attempting to refresh usage (#${run.sequence})...`);
+  const { signal } = run;
+  // Caches of a previous cookie or team must be gone before they are used
+  await authChangeChecked;
   try {
     // The cookie is retrieved from secure storage right before it's used
     // and is never stored in a variable accessible outside this scope.
     const cookie = await context.secrets.get("cursor.cookie");
+    logger.addSecret(cookie);
+    if (isRefreshObsolete(run)) {
+      return;
+    }
     if (!cookie) {
-      statusBar.setStatusBarWarning("Set Cookie");
+      showUsageState({ kind: "warning", warning: "Set Cookie" });
+      windowCoordinator.publishSharedState({ warning: "Set Cookie" });
       vscode.window.showWarningMessage(
         'Cursor cookie not found. Use "Cursor Usage Extension: Insert cookie value" command to set it.',
       );
       return;
     }
 
+    // Polling stays paused while the stored cookie is one Cursor already rejected
+    if (session.isSessionPaused(context.globalState, cookie)) {
+      logger.info(
+        "Session expired - skipping refresh until a new cookie is set",
+      );
+      showUsageState({
+        kind: "error",
+        error: new AuthExpiredError("Session cookie was rejected by Cursor"),
+      });
+      return;
+    }
+
+    // Polling is paused after repeated failures until the circuit breaker lets a probe through
+    if (!circuitBreaker.canRequest()) {
+      logger.info("Circuit breaker open - skipping refresh");
+      const circuit = circuitBreaker.getCircuitStatus();
+      showRefreshFailure(context, circuit.lastError, circuit);
+      return;
+    }
+
     // Get user information for reset date (with caching)
     let userMe = await getCached<UserMeResponse>(context, "cachedUserMe");
     if (!userMe) {
-      userMe = await api.fetchUserMe(cookie);
+      try {
+        userMe = await api.fetchUserMe(cookie, signal);
+      } catch (error) {
+        if (isRefreshObsolete(run)) {
+          return;
+        }
+        if (session.isSessionRejected(error)) {
+          await handleSessionExpired(context, cookie, error);
+          return;
+        }
+        throw error;
+      }
       await setCached(context, "cachedUserMe", userMe);
-      console.log(
-        `[Cursor Usage] Fetched and cached user info for: ${userMe.email}`,
-      );
+      logger.debug(`Fetched and cached user info for: ${userMe.email}`);
     } else {
-      console.log(`[Cursor Usage] Using cached user info for: ${userMe.email}`);
+      logger.debug(`Using cached user info for: ${userMe.email}`);
     }
 
     // Get user usage data for reset date information with partial failure handling
     let userUsage: UserUsageResponse | null = null;
+    let usageFailure: unknown;
     try {
-      userUsage = await api.fetchUserUsage(userMe.sub, cookie);
-      console.log(`[Cursor Usage] Fetched usage data for user: ${userMe.sub}`);
+      userUsage = await api.fetchUserUsage(userMe.sub, cookie, {}, signal);
+      logger.info(`Fetched usage data for user: ${userMe.sub}`);
     } catch (usageError: any) {
-      console.warn(
-        `[Cursor Usage] Failed to fetch user usage data: ${usageError.message}. Using basic user info only.`,
+      if (isRefreshObsolete(run)) {
+        return;
+      }
+      if (session.isSessionRejected(usageError)) {
+        await handleSessionExpired(context, cookie, usageError);
+        return;
+      }
+      usageFailure = usageError;
+      logger.warn(
+        `Failed to fetch user usage data: ${usageError.message}. Using basic user info only.`,
       );
     }
 
     // Two-tier approach: try team data first, fallback to individual data
     // This supports both team users and individual users without teams
-    const teamId = await getTeamId(context, cookie);
+    const teamId = await getTeamId(context, cookie, signal);
     let mySpend: TeamMemberSpend | undefined;
-    let maxRequests = userUsage
-      ? userUsage["gpt-4"].maxRequestUsage || 500
-      : 500;
+    const modelBuckets = userUsage ? getModelBuckets(userUsage) : [];
+    const bucket = selectStatusBarBucket(
+      modelBuckets,
+      config.getStatusBarModel(),
+    );
+    if (bucket && bucket.model !== config.getStatusBarModel()) {
+      logger.info(
+        `Model "${config.getStatusBarModel()}" has no request limit or is missing - showing "${bucket.model}" instead`,
+      );
+    }
+    let maxRequests = bucket ? bucket.usage.maxRequestUsage || 500 : 500;
 
     // TEAM FLOW: Try to get team-based usage data if user has related team from api/sets a team ID manually
     // If we couldn't get team spend data, we'll show a simplified view with just the individual user data
     if (teamId) {
       try {
-        // Try to get team details from cache first
-        const cacheKey = `cachedTeamDetails_${teamId}`;
-        let userDetails = await getCached<TeamDetails>(context, cacheKey);
-        if (!userDetails) {
-          userDetails = await api.fetchTeamDetails(teamId, cookie);
-          await setCached(context, cacheKey, userDetails);
-          console.log(
-            `[Cursor Usage] Fetched and cached team details for team ${teamId}`,
-          );
-        } else {
-          console.log(
-            `[Cursor Usage] Using cached team details for team ${teamId}`,
-          );
-        }
-
-        const spendData = await api.fetchTeamSpend(teamId, cookie);
-
-        mySpend = spendData.teamMemberSpend.find(
-          (member) => member.userId === userDetails.userId,
-        );
+        const teamSpend = await fetchMySpend(context, teamId, cookie, signal);
+        mySpend = teamSpend.mySpend;
+        teamMembersView.setTeamSpend(teamId, teamSpend.spendData, {
+          maxRequests,
+          teamHardLimitDollars: await getTeamHardLimit(
+            context,
+            teamId,
+            cookie,
+            signal,
+          ),
+        });
       } catch (teamError: any) {
-        console.warn(
-          `[Cursor Usage] Failed to fetch team data: ${teamError.message}`,
-        );
+        if (isRefreshObsolete(run)) {
+          return;
+        }
+        // Cursor only denies team data to non-members, e.g. after leaving the selected team
+        if (classifyError(teamError).kind === "forbidden") {
+          logger.warn(`No access to team ${teamId}: ${teamError.message}`);
+          reportRefreshFailure(context, teamError);
+          return;
+        }
+        logger.warn(`Failed to fetch team data: ${teamError.message}`);
       }
     }
 
+    if (isRefreshObsolete(run)) {
+      return;
+    }
+
     // Determine usage data source and calculate values
     let usedRequests = 0; // Initialize with default value
     let spendCents: number | undefined;
@@ -547,21 +1071,24 @@ async function refreshUsage(context: vscode.ExtensionContext): Promise<void> {
     if (!userUsage) {
       // USER USAGE FAILED: This is complete failure - let error handling take over
       // User usage is required, team usage is optional
-      console.log(
-        "[Cursor Usage] User usage API failed - using existing error handling (complete failure)",
+      logger.info(
+        "User usage API failed - using existing error handling (complete failure)",
       );
       bothApisFailed = true;
     } else if (!mySpend || typeof mySpend.fastPremiumRequests !== "number") {
       // PARTIAL FAILURE: User usage succeeds but team API fails
       // Show individual user data only
-      const gpt4Usage = userUsage["gpt-4"];
-      usedRequests = gpt4Usage.numRequests;
+      usedRequests = bucket ? bucket.usage.numRequests : 0;
       spendCents = undefined; // Individual users don't have spending data in team API
       hardLimitDollars = undefined;
     } else {
       // FULL SUCCESS: Both user and team usage available
-      // Use team-based data when available (may be more accurate)
-      usedRequests = mySpend.fastPremiumRequests;
+      // Use team-based data when available (may be more accurate). The team API
+      // only counts fast premium requests, so other buckets keep their own count.
+      usedRequests =
+        bucket && bucket.model !== PREMIUM_MODEL
+          ? bucket.usage.numRequests
+          : mySpend.fastPremiumRequests;
       spendCents = mySpend.spendCents;
       hardLimitDollars = mySpend.hardLimitOverrideDollars;
     }
@@ -570,46 +1097,373 @@ async function refreshUsage(context: vscode.ExtensionContext): Promise<void> {
     if (!bothApisFailed) {
       // Calculate final values and update status bar
       const remainingRequests = Math.max(0, maxRequests - usedRequests);
-      const resetInfo = userUsage
-        ? calculateResetInfo(userUsage.startOfMonth)
-        : calculateResetInfo(new Date().toISOString().split("T")[0]); // Use current month as fallback
+      const startOfMonth = userUsage
+        ? userUsage.startOfMonth
+        : new Date().toISOString().split("T")[0]; // Use current month as fallback
+      const resetInfo = calculateResetInfo(startOfMonth);
+      const teamSummaries = await getAdditionalTeamSummaries(
+        context,
+        cookie,
+        teamId,
+        signal,
+      );
 
-      statusBar.updateStatusBar(
-        remainingRequests,
-        maxRequests,
+      await forecast.recordForecastSample(context, {
+        timestamp: Date.now(),
+        usedRequests,
         spendCents,
-        hardLimitDollars,
-        resetInfo,
+        startOfMonth,
+        model: bucket?.model,
+      });
+      const usageForecast = forecast.computeForecast(
+        forecast.getForecastSamples(context),
+        {
+          usedRequests,
+          maxRequests,
+          spendCents,
+          hardLimitDollars,
+          startOfMonth,
+          resetDate: resetInfo.end,
+          model: bucket?.model,
+        },
       );
 
-      let logMessage = `[Cursor Usage] Successfully updated status bar. Remaining requests: ${remainingRequests}/${maxRequests}, Resets in ${resetInfo.daysRemaining} days`;
+      if (isRefreshObsolete(run)) {
+        return;
+      }
+      const usage: windowCoordinator.SharedUsage = {
+        remainingRequests,
+        totalRequests: maxRequests,
+        spendCents,
+        hardLimitDollars,
+        startOfMonth,
+        teamSummaries,
+        modelBuckets,
+        statusBarModel: bucket?.model,
+        forecast: usageForecast,
+      };
+      showUsageState({ kind: "usage", usage, asOf: Date.now() });
+      windowCoordinator.publishSharedState({ usage });
+      await lastKnownGood.saveLastKnownGood(context, usage);
+
+      let logMessage = `Successfully updated status bar. Remaining requests: ${remainingRequests}/${maxRequests}, Resets in ${resetInfo.daysRemaining} days`;
       if (spendCents !== undefined && hardLimitDollars !== undefined) {
         const spendDollars = (spendCents / 100).toFixed(2);
         logMessage += `, spend: $${spendDollars}/$${hardLimitDollars.toFixed(2)}`;
       }
-      console.log(logMessage);
+      logger.info(logMessage);
+      circuitBreaker.recordSuccess();
+
+      await history.recordSnapshot(
+        {
+          timestamp: Date.now(),
+          usedRequests,
+          maxRequests,
+          spendCents,
+          hardLimitDollars,
+          startOfMonth,
+          teamId,
+          model: bucket?.model,
+          models: userUsage
+            ? Object.fromEntries(modelBuckets.map((b) => [b.model, b.usage]))
+            : undefined,
+        },
+        config.getHistoryRetentionCycles(),
+      );
+      dashboard.updateDashboard();
+
+      // Alerts are left to the leader; a crossing seen here is still pending at its next poll
+      if (windowCoordinator.isLeader()) {
+        await notifyThresholdCrossings(context, {
+          remainingRequests,
+          totalRequests: maxRequests,
+          spendCents,
+          hardLimitDollars,
+          startOfMonth,
+          teamId,
+          usedTokens: bucket?.usage.numTokens,
+          maxTokens: bucket?.usage.maxTokenUsage ?? undefined,
+          projectedSpendCents: usageForecast?.projectedSpendCents,
+        });
+      }
     } else {
-      // Both APIs failed - let the existing error handling take over by not updating status bar
-      console.log(
-        "[Cursor Usage] Both APIs failed - not updating status bar, letting error handling work",
+      // Both APIs failed - show why the user usage request failed
+      logger.info(
+        "Both APIs failed - showing the user usage error in the status bar",
       );
+      reportRefreshFailure(context, usageFailure);
     }
   } catch (error: any) {
-    statusBar.setStatusBarError("Refresh Failed");
-    console.error(
-      `[Cursor Usage] Failed to refresh Cursor usage: ${error.message}`,
+    if (isRefreshObsolete(run)) {
+      return;
+    }
+    const apiError = classifyError(error);
+    logger.error(
+      `Failed to refresh Cursor usage (${apiError.kind}): ${apiError.message}`,
     );
+    reportRefreshFailure(context, apiError);
+  }
+}
+
+/**
+ * Shows a failed refresh in the status bar and counts it towards the circuit breaker.
+ * Once the breaker opens, the paused state replaces the error. Other windows
+ * are shown the error itself.
+ * @param context VS Code extension context
+ * @param error The error the refresh failed with
+ */
+function reportRefreshFailure(
+  context: vscode.ExtensionContext,
+  error: unknown,
+): void {
+  const apiError = classifyError(error);
+  showRefreshFailure(
+    context,
+    apiError,
+    circuitBreaker.recordFailure(apiError)
+      ? circuitBreaker.getCircuitStatus()
+      : undefined,
+  );
+  windowCoordinator.publishSharedState({
+    error: {
+      kind: apiError.kind,
+      message: apiError.message,
+      statusCode: apiError.statusCode,
+    },
+  });
+}
+
+/**
+ * Shows why usage could not be refreshed. While retrying can fix the error,
+ * the last known usage stays visible, marked as stale; otherwise the error
+ * (or the paused state) replaces it.
+ * @param context VS Code extension context
+ * @param error The error the refresh failed with (optional while paused)
+ * @param circuit Circuit breaker status, when polling is paused (optional)
+ */
+function showRefreshFailure(
+  context: vscode.ExtensionContext,
+  error: CursorApiError | undefined,
+  circuit?: circuitBreaker.CircuitStatus,
+): void {
+  const lastGood = lastKnownGood.getLastKnownGood(context);
+  if (lastGood && (!error || lastKnownGood.keepsLastKnownGood(error))) {
+    showUsageState({
+      kind: "usage",
+      usage: lastGood.usage,
+      asOf: lastGood.timestamp,
+      stale: { error, circuit },
+    });
+  } else if (circuit) {
+    showUsageState({ kind: "paused", circuit });
+  } else if (error) {
+    showUsageState({ kind: "error", error });
+  }
+}
+
+/**
+ * Fetches a team's spend data and looks up the current user's entry in it.
+ * Team details (which hold the user's ID in the team) are cached for 24 hours.
+ * @param context VS Code extension context
+ * @param teamId The team to look up
+ * @param cookie The user's authentication cookie
+ * @param signal Cancels the requests (optional)
+ * @returns The whole team's spend data and the user's own entry (undefined if not listed)
+ */
+async function fetchMySpend(
+  context: vscode.ExtensionContext,
+  teamId: number,
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<{ spendData: SpendData; mySpend?: TeamMemberSpend }> {
+  // Try to get team details from cache first
+  const cacheKey = `cachedTeamDetails_${teamId}`;
+  let userDetails = await getCached<TeamDetails>(context, cacheKey);
+  if (!userDetails) {
+    userDetails = await api.fetchTeamDetails(teamId, cookie, signal);
+    await setCached(context, cacheKey, userDetails);
+    logger.debug(`Fetched and cached team details for team ${teamId}`);
+  } else {
+    logger.debug(`Using cached team details for team ${teamId}`);
+  }
+
+  const spendData = await api.fetchTeamSpend(teamId, cookie, {}, signal);
+
+  const mySpend = spendData.teamMemberSpend.find(
+    (member) => member.userId === userDetails.userId,
+  );
+  return { spendData, mySpend };
+}
+
+/**
+ * Looks up a team's hard limit, which applies to members without an override.
+ * Cached for 24 hours; a failed lookup only means members are not measured against it.
+ * @param context VS Code extension context
+ * @param teamId The team to look up
+ * @param cookie The user's authentication cookie
+ * @param signal Cancels the request (optional)
+ * @returns The limit in dollars, or undefined if the team has none or it could not be fetched
+ */
+async function getTeamHardLimit(
+  context: vscode.ExtensionContext,
+  teamId: number,
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<number | undefined> {
+  const cacheKey = `cachedTeamHardLimit_${teamId}`;
+  let teamHardLimit = await getCached<TeamHardLimit>(context, cacheKey);
+  if (teamHardLimit) {
+    logger.debug(`Using cached hard limit for team ${teamId}`);
+    return teamHardLimit.hardLimit;
+  }
+  try {
+    teamHardLimit = await api.fetchTeamHardLimit(teamId, cookie, signal);
+    await setCached(context, cacheKey, teamHardLimit);
+    return teamHardLimit.hardLimit;
+  } catch (error: any) {
+    logger.warn(
+      `Failed to fetch the hard limit of team ${teamId}: ${error.message}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Fetches the user's usage in every additional tracked team.
+ * A team that fails to load is reported as unavailable instead of failing the refresh.
+ * @param context VS Code extension context
+ * @param cookie The user's authentication cookie
+ * @param primaryTeamId The team already shown in the status bar (skipped)
+ * @param signal Cancels the requests (optional)
+ * @returns One summary per additional team
+ */
+async function getAdditionalTeamSummaries(
+  context: vscode.ExtensionContext,
+  cookie: string,
+  primaryTeamId: number | undefined,
+  signal?: AbortSignal,
+): Promise<statusBar.TeamUsageSummary[]> {
+  const teamIds = config
+    .getAdditionalTeamIds()
+    .filter((id) => id !== primaryTeamId);
+  if (teamIds.length === 0) {
+    return [];
+  }
+
+  let teams: Team[] = [];
+  try {
+    const response = await getTeams(context, cookie, signal);
+    teams = (response && response.teams) || [];
+  } catch (error: any) {
+    logger.warn(`Failed to fetch team names: ${error.message}`);
+  }
+
+  return Promise.all(
+    teamIds.map(async (id): Promise<statusBar.TeamUsageSummary> => {
+      const team = teams.find((t) => t.id === id);
+      const teamName = team ? team.name : `Team ${id}`;
+      try {
+        const spend = (await fetchMySpend(context, id, cookie, signal)).mySpend;
+        return {
+          teamId: id,
+          teamName,
+          usedRequests: spend?.fastPremiumRequests,
+          spendCents: spend?.spendCents,
+          hardLimitDollars: spend?.hardLimitOverrideDollars,
+        };
+      } catch (error: any) {
+        logger.warn(`Failed to fetch usage for team ${id}: ${error.message}`);
+        return {
+          teamId: id,
+          teamName,
+          failed: true,
+        };
+      }
+    }),
+  );
+}
+
+/**
+ * Fetches all teams the user belongs to, using the 24-hour cache when possible.
+ * @param context VS Code extension context
+ * @param cookie The user's authentication cookie
+ * @param signal Cancels the request (optional)
+ */
+async function getTeams(
+  context: vscode.ExtensionContext,
+  cookie: string,
+  signal?: AbortSignal,
+): Promise<TeamsResponse> {
+  let response = await getCached<TeamsResponse>(context, "cachedTeams");
+  if (!response) {
+    response = await api.fetchTeams(cookie, signal);
+    await setCached(context, "cachedTeams", response);
+    logger.debug("Fetched and cached teams data");
+  } else {
+    logger.debug("Using cached teams data");
+  }
+  return response;
+}
+
+/**
+ * Sends a notification for every threshold newly crossed by the latest refresh.
+ * Each crossing is notified only once per billing cycle. During quiet hours the
+ * notifications are held back and sent by the first refresh after them.
+ * @param context VS Code extension context
+ * @param input Usage figures from the latest refresh
+ */
+async function notifyThresholdCrossings(
+  context: vscode.ExtensionContext,
+  input: alerts.CrossingInput,
+): Promise<void> {
+  try {
+    const crossings = await alerts.checkThresholdCrossings(
+      context,
+      input,
+      config.getAlertSettings(),
+    );
+    crossings.forEach((crossing) =>
+      logger.info(`Threshold crossed: ${crossing.id}`),
+    );
+
+    // Hold alerts back during quiet hours; they are sent by the first refresh after
+    const deferred =
+      context.globalState.get<string[]>(DEFERRED_ALERTS_KEY) ?? [];
+    const messages = [...deferred, ...crossings.map((c) => c.message)];
+    if (isQuietTime(new Date(), config.getNotificationSchedule().quietHours)) {
+      if (crossings.length > 0) {
+        await context.globalState.update(DEFERRED_ALERTS_KEY, messages);
+      }
+      return;
+    }
+    if (deferred.length > 0) {
+      await context.globalState.update(DEFERRED_ALERTS_KEY, undefined);
+    }
+
+    const showInEditor = notifier.showsEditorNotifications(
+      config.getNotifierBackend(),
+    );
+    for (const message of messages) {
+      if (showInEditor) {
+        vscode.window.showWarningMessage(message);
+      }
+      sendOSNotification(message);
+    }
+  } catch (error: any) {
+    logger.error(`Failed to check threshold crossings: ${error.message}`);
   }
 }
 
 /**
  * Determines the team ID to use, prioritizing user settings over auto-detection.
  * @param cookie The user's authentication cookie.
+ * @param signal Cancels the request (optional).
  * @returns The team ID number or undefined if not found.
  */
 async function getTeamId(
   context: vscode.ExtensionContext,
   cookie: string,
+  signal?: AbortSignal,
 ): Promise<number | undefined> {
   const teamIdFromSettings = config.getTeamIdFromSettings();
   if (teamIdFromSettings && teamIdFromSettings.toLowerCase() === "auto") {
@@ -619,88 +1473,101 @@ async function getTeamId(
       .update("teamId", "", vscode.ConfigurationTarget.Global);
   } else if (teamIdFromSettings && !isNaN(parseInt(teamIdFromSettings, 10))) {
     const teamId = parseInt(teamIdFromSettings, 10);
-    console.log(`[Cursor Usage] Using Team ID from settings: ${teamId}`);
+    logger.info(`Using Team ID from settings: ${teamId}`);
     return teamId;
   }
 
   // Try to get from cache first
   const cachedTeamId = context.workspaceState.get<number>("cursor.teamId");
   if (cachedTeamId) {
-    console.log(`[Cursor Usage] Using cached Team ID: ${cachedTeamId}`);
+    logger.debug(`Using cached Team ID: ${cachedTeamId}`);
     return cachedTeamId;
   }
 
-  console.log(
-    "[Cursor Usage] Team ID not in settings or cache, attempting to fetch automatically.",
+  logger.info(
+    "Team ID not in settings or cache, attempting to fetch automatically.",
   );
   try {
-    // Try to get teams from cache first
-    let response = await getCached<TeamsResponse>(context, "cachedTeams");
-    if (!response) {
-      response = await api.fetchTeams(cookie);
-      await setCached(context, "cachedTeams", response);
-      console.log("[Cursor Usage] Fetched and cached teams data");
-    } else {
-      console.log("[Cursor Usage] Using cached teams data");
-    }
+    const response = await getTeams(context, cookie, signal);
 
     if (response && response.teams && response.teams.length > 0) {
       const teamId = response.teams[0].id;
-      console.log(
-        `[Cursor Usage] Automatically detected and cached Team ID: ${teamId}`,
-      );
+      logger.info(`Automatically detected and cached Team ID: ${teamId}`);
       // Cache the detected team ID
       await context.workspaceState.update("cursor.teamId", teamId);
+
+      // Don't silently pick a team when there is a choice to make
+      if (response.teams.length > 1) {
+        vscode.window
+          .showInformationMessage(
+            `You belong to ${response.teams.length} Cursor teams. Tracking "${response.teams[0].name}".`,
+            "Select Team",
+          )
+          .then((choice) => {
+            if (choice === "Select Team") {
+              vscode.commands.executeCommand("cursorUsage.selectTeam");
+            }
+          });
+      }
       return teamId;
     }
-    console.warn("[Cursor Usage] No teams found for this user.");
+    logger.warn("No teams found for this user.");
     return undefined;
   } catch (error: any) {
-    console.error(
-      `[Cursor Usage] Failed to auto-detect Team ID: ${error.message}`,
-    );
+    logger.error(`Failed to auto-detect Team ID: ${error.message}`);
     return undefined;
   }
 }
 
 /**
- * Sets up the automatic refresh timer based on the user's configuration.
+ * Checks whether the last known usage is close to an alert or warning
+ * threshold, so polling should speed up to catch the crossing early.
+ * @param context VS Code extension context
  */
-function setupRefreshTimer(context: vscode.ExtensionContext): void {
-  if (refreshTimer) {
-    clearInterval(refreshTimer);
+function isUsageNearThreshold(context: vscode.ExtensionContext): boolean {
+  const usage = lastKnownGood.getLastKnownGood(context)?.usage;
+  if (!usage) {
+    return false;
   }
-
-  const pollMinutes = config.getPollMinutes();
-  const pollIntervalMs = pollMinutes * 60 * 1000;
-
-  refreshTimer = setInterval(() => {
-    refreshUsage(context);
-  }, pollIntervalMs);
-
-  console.log(`[Cursor Usage] Refresh timer set to ${pollMinutes} minutes.`);
+  const thresholds = config.getAlertThresholds();
+  const alertSettings = config.getAlertSettings();
+  return refreshScheduler.isNearThreshold({
+    remainingRequests: usage.remainingRequests,
+    totalRequests: usage.totalRequests,
+    spendCents: usage.spendCents,
+    hardLimitDollars: usage.hardLimitDollars,
+    requestThresholds: [
+      (usage.totalRequests * thresholds.lowRequestsPercent) / 100,
+      thresholds.lowRequestsCount,
+      ...(alertSettings.enabled ? alertSettings.remainingRequests : []),
+    ],
+    spendThresholds: [
+      thresholds.spendWarningPercent,
+      ...(alertSettings.enabled ? alertSettings.spendPercentages : []),
+    ],
+  });
 }
 
 /**
- * Resets the extension by clearing the cache, re-initializing the timer, and forcing a refresh.
+ * Resets the extension by clearing the cache and forcing a refresh.
  * @param context The extension context.
  */
 async function forceRefresh(context: vscode.ExtensionContext) {
-  console.log("[Cursor Usage] Forcing a full refresh...");
+  logger.info("Forcing a full refresh...");
 
   // Clear all caches
-  console.log("[Cursor Usage] Clearing all caches on force refresh");
+  logger.info("Clearing all caches on force refresh");
   await clearAllCaches(context);
+  await session.resumeSession(context.globalState);
+  circuitBreaker.resetCircuit();
 
   // Clear cached data
   await context.workspaceState.update("cursor.teamId", undefined);
-  console.log("[Cursor Usage] Cleared cached Team ID.");
+  logger.info("Cleared cached Team ID.");
 
-  // Reset and setup timer
-  setupRefreshTimer(context);
-
-  // Refresh usage data
-  await refreshUsage(context);
+  // Refresh usage data, which also restarts the poll timer. A refresh already
+  // running may have read the caches that were just cleared.
+  await requestRefresh(context, { supersede: true });
   vscode.window.showInformationMessage(
     "Cursor Usage extension has been re-initialized.",
   );
@@ -727,11 +1594,132 @@ async function setTeamId(context: vscode.ExtensionContext) {
     );
 
     // Clear team-related caches on team ID change
-    console.log("[Cursor Usage] Clearing team caches on team ID change");
+    logger.info("Clearing team caches on team ID change");
     await clearTeamCaches(context);
   }
 }
 
+/**
+ * Shows a quick pick of the model buckets from the latest refresh to choose
+ * which one drives the status bar number. Only buckets with a request limit
+ * can be picked, since the status bar shows remaining requests.
+ */
+async function selectStatusBarModel() {
+  const models = history.getLatestSnapshot()?.models;
+  if (!models || Object.keys(models).length === 0) {
+    vscode.window.showWarningMessage(
+      "No model usage data yet. Refresh usage first, then pick a model.",
+    );
+    return;
+  }
+
+  const current = config.getStatusBarModel();
+  const picked = await vscode.window.showQuickPick(
+    getModelBuckets(models)
+      .filter((b) => b.usage.maxRequestUsage !== null)
+      .map((b) => ({
+        label: b.model,
+        description: b.model === current ? "current" : undefined,
+        detail: `${b.usage.numRequests}/${b.usage.maxRequestUsage} requests, ${formatTokens(b.usage.numTokens)} tokens`,
+        model: b.model,
+      })),
+    { placeHolder: "Model shown in the status bar" },
+  );
+  if (!picked) {
+    return;
+  }
+
+  await vscode.workspace
+    .getConfiguration("cursorUsage")
+    .update("statusBarModel", picked.model, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Shows a quick pick of the user's teams to choose which one drives the status bar,
+ * with options to go back to auto-detection or track several teams at once.
+ */
+async function selectTeam(context: vscode.ExtensionContext) {
+  const cookie = await context.secrets.get("cursor.cookie");
+  logger.addSecret(cookie);
+  if (!cookie) {
+    vscode.window.showWarningMessage(
+      'Cursor cookie not found. Use "Cursor Usage Extension: Insert cookie value" command to set it.',
+    );
+    return;
+  }
+
+  let teams: Team[];
+  try {
+    const response = await getTeams(context, cookie);
+    teams = (response && response.teams) || [];
+  } catch (error: any) {
+    logger.error(`Failed to load teams: ${error.message}`);
+    vscode.window.showErrorMessage(`Failed to load teams: ${error.message}`);
+    return;
+  }
+
+  if (teams.length === 0) {
+    vscode.window.showInformationMessage(
+      "No Cursor teams found for this account. Individual usage is shown instead.",
+    );
+    return;
+  }
+
+  const items: (TeamPickItem & vscode.QuickPickItem)[] = [
+    ...getTeamPickItems(teams, config.getTeamIdFromSettings()),
+    {
+      label: "",
+      kind: vscode.QuickPickItemKind.Separator,
+      action: "additional",
+    },
+    ADDITIONAL_TEAMS_ITEM,
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the Cursor team to track",
+    ignoreFocusOut: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  const selection = resolveTeamPick(picked);
+  if (selection.kind === "additional") {
+    await selectAdditionalTeams(teams);
+    return;
+  }
+
+  // The configuration change listener clears team caches and refreshes
+  await vscode.workspace
+    .getConfiguration("cursorUsage")
+    .update("teamId", selection.teamId, vscode.ConfigurationTarget.Global);
+  vscode.window.showInformationMessage(`Cursor team set to: ${selection.name}`);
+}
+
+/**
+ * Shows a multi-select quick pick of the user's teams to track alongside the primary team.
+ * @param teams The teams the user belongs to
+ */
+async function selectAdditionalTeams(teams: Team[]) {
+  const picked = await vscode.window.showQuickPick(
+    getAdditionalTeamPickItems(teams, config.getAdditionalTeamIds()),
+    {
+      placeHolder: "Select additional teams to show in the tooltip",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    },
+  );
+  if (!picked) {
+    return;
+  }
+
+  const { teamIds, message } = resolveAdditionalTeamPick(picked);
+  await vscode.workspace
+    .getConfiguration("cursorUsage")
+    .update("additionalTeamIds", teamIds, vscode.ConfigurationTarget.Global);
+  vscode.window.showInformationMessage(message);
+}
+
 /**
  * Shows an input box to let the user set the poll interval.
  */
@@ -765,27 +1753,38 @@ async function setPollMinutes() {
  * This allows you to see how the notification looks without waiting for the scheduled time.
  */
 export async function testNotification(context: vscode.ExtensionContext) {
-  console.log("[Cursor Usage] Testing notification manually...");
+  logger.info("Testing notification manually...");
 
   try {
-    // Get the full tooltip message (detailed usage information)
-    const fullMessage = getFullTooltipMessage();
-
-    console.log("Testing notification with full message:", fullMessage);
+    // Report whatever usage is known, even if it is stale
+    const state = usageState.getUsageState();
+    const fullMessage =
+      state.kind === "usage"
+        ? getUsageMessage(state.usage)
+        : "Usage information not available";
+
+    logger.debug("Testing notification with full message:", fullMessage);
+
+    const backend = config.getNotifierBackend();
+    if (backend === "none") {
+      vscode.window.showInformationMessage(
+        'Cursor Usage notifications are turned off (the "cursorUsage.notifications.backend" setting is "none").',
+      );
+      return;
+    }
 
     // Send Cursor notification first (simple text only)
     sendCursorNotification(fullMessage);
-    console.log("Cursor notification sent");
+    logger.info("Cursor notification sent");
 
-    // Send OS notification with Cursor IDE icon and full message
+    // Send OS notification through the configured backends
     sendOSNotification(fullMessage);
-    console.log("OS notification sent with Cursor IDE icon");
 
-    console.log(
+    logger.info(
       "Test notifications completed - check console for detailed logs",
     );
   } catch (error) {
-    console.error("Failed to send test notification:", error);
+    logger.error("Failed to send test notification:", error);
     vscode.window.showErrorMessage(
       `Failed to send test notification: ${error}`,
     );
@@ -794,72 +1793,31 @@ export async function testNotification(context: vscode.ExtensionContext) {
 
 /**
  * Shows notifications in both Cursor notification tray and OS system tray.
- * Uses full tooltip content and Cursor IDE icon for consistency.
+ * @param usage The usage to report
  */
-export function showSystemNotification(message: string) {
-  // Get the full tooltip content (detailed usage information)
-  const fullMessage = getFullTooltipMessage();
+export function showSystemNotification(usage: windowCoordinator.SharedUsage) {
+  const fullMessage = getUsageMessage(usage);
 
   // 1. Send Cursor notification (appears in Cursor notification tray) - simple text only
-  sendCursorNotification(fullMessage);
+  if (notifier.showsEditorNotifications(config.getNotifierBackend())) {
+    sendCursorNotification(fullMessage);
+  }
 
   // 2. Send OS system notification (appears in OS notification center) - with click behavior
   sendOSNotification(fullMessage);
 }
 
 /**
- * Gets the full tooltip message (detailed usage information) without "Click to refresh"
+ * Renders the text of a usage notification for the usage's billing cycle and
+ * the configured alert thresholds.
+ * @param usage The usage to report
  */
-function getFullTooltipMessage(): string {
-  const statusBarItem = require("./statusBar").getStatusBarItem();
-  if (statusBarItem && statusBarItem.tooltip) {
-    // Return tooltip content without the "Click to refresh" part
-    const tooltip = statusBarItem.tooltip as string;
-    const lines = tooltip.split("\n");
-
-    // Remove the last line if it's "Click to refresh" or empty lines at the end
-    while (
-      lines.length > 0 &&
-      (lines[lines.length - 1].trim() === "" ||
-        lines[lines.length - 1].includes("Click to refresh"))
-    ) {
-      lines.pop();
-    }
-
-    // Identify specific lines
-    let resetLine = "";
-    let warningLine = "";
-    let requestsLine = "";
-    let spendingLine = "";
-    let budgetLine = "";
-
-    lines.forEach((line: string) => {
-      const trimmed = line.trim();
-      if (trimmed.startsWith("Resets in")) {
-        resetLine = trimmed;
-      } else if (trimmed.startsWith("⚠️")) {
-        warningLine = trimmed;
-      } else if (trimmed.startsWith("Fast Premium Requests:")) {
-        requestsLine = trimmed;
-      } else if (trimmed.startsWith("Spending:")) {
-        spendingLine = trimmed;
-      } else if (trimmed.startsWith("Remaining budget:")) {
-        budgetLine = trimmed;
-      }
-    });
-
-    // Reorder: requests > spending > budget > reset > warning (if present)
-    const orderedLines = [];
-    if (requestsLine) orderedLines.push(requestsLine);
-    if (spendingLine) orderedLines.push(spendingLine);
-    if (budgetLine) orderedLines.push(budgetLine);
-    if (resetLine) orderedLines.push(resetLine);
-    if (warningLine) orderedLines.push(warningLine);
-
-    console.log("Ordered lines for notification:", orderedLines.join("\n"));
-    return orderedLines.join("\n");
-  }
-  return "Usage information not available";
+function getUsageMessage(usage: windowCoordinator.SharedUsage): string {
+  return renderUsageMessage(
+    usage,
+    calculateResetInfo(usage.startOfMonth),
+    config.getAlertThresholds(),
+  );
 }
 
 /**
@@ -878,7 +1836,7 @@ function sendCursorNotification(message: string) {
   // Track for cleanup after 6 hours
   trackNotificationForCleanup(separatedMessage); // Track for cleanup
 
-  console.log(
+  logger.debug(
     "Cursor notification sent - will be cleaned from history after 6 hours",
   );
 }
@@ -899,7 +1857,7 @@ function trackNotificationForCleanup(message: string) {
       timestamp: number;
     }>;
 
-    console.log(
+    logger.debug(
       `Tracking notification - current history count: ${history.length}`,
     );
 
@@ -922,12 +1880,12 @@ function trackNotificationForCleanup(message: string) {
         filteredHistory,
         vscode.ConfigurationTarget.Global,
       );
-      console.log(
+      logger.info(
         `Cleaned up ${history.length - filteredHistory.length} old notifications`,
       );
     }
 
-    console.log(
+    logger.debug(
       `Notification tracked successfully - total in history: ${filteredHistory.length}`,
     );
 
@@ -939,7 +1897,7 @@ function trackNotificationForCleanup(message: string) {
       1000 * 60 * 5,
     ); // Check in 5 minutes for immediate feedback
   } catch (error) {
-    console.error("Failed to track notification for cleanup:", error);
+    logger.error("Failed to track notification for cleanup:", error);
   }
 }
 
@@ -957,7 +1915,7 @@ function cleanupOldNotifications() {
       timestamp: number;
     }>;
 
-    console.log(
+    logger.debug(
       `Cleanup check - current notification count: ${history.length}`,
     );
 
@@ -974,7 +1932,7 @@ function cleanupOldNotifications() {
         vscode.ConfigurationTarget.Global,
       );
 
-      console.log(
+      logger.info(
         `Cleaned up ${cleanedCount} old notifications from history (older than 6 hours)`,
       );
 
@@ -983,15 +1941,15 @@ function cleanupOldNotifications() {
         (item) => item.timestamp <= sixHoursAgo,
       );
       if (oldNotifications.length > 0) {
-        console.log(
+        logger.debug(
           `Oldest notification was from ${new Date(oldNotifications[0].timestamp).toLocaleString()}`,
         );
       }
     } else {
-      console.log("No old notifications to clean up");
+      logger.debug("No old notifications to clean up");
     }
   } catch (error) {
-    console.error("Failed to cleanup old notifications:", error);
+    logger.error("Failed to cleanup old notifications:", error);
   }
 }
 
@@ -1000,7 +1958,7 @@ function cleanupOldNotifications() {
  */
 function initializeNotificationCleanup() {
   try {
-    console.log("Initializing notification cleanup system...");
+    logger.debug("Initializing notification cleanup system...");
 
     // Run initial cleanup immediately
     cleanupOldNotifications();
@@ -1008,31 +1966,35 @@ function initializeNotificationCleanup() {
     // Set up periodic cleanup every hour
     const cleanupInterval = setInterval(
       () => {
-        console.log("Running scheduled notification cleanup...");
+        logger.debug("Running scheduled notification cleanup...");
         cleanupOldNotifications();
       },
       60 * 60 * 1000,
     ); // Check every hour
 
-    console.log(
+    logger.debug(
       "Notification cleanup system initialized - will clean notifications older than 6 hours",
     );
 
     // Return cleanup function for potential cleanup
     return () => {
       clearInterval(cleanupInterval);
-      console.log("Notification cleanup system stopped");
+      logger.debug("Notification cleanup system stopped");
     };
   } catch (error) {
-    console.error("Failed to initialize notification cleanup system:", error);
+    logger.error("Failed to initialize notification cleanup system:", error);
   }
 }
 
 /**
- * Sends a system notification to the OS notification tray.
+ * Sends a system notification to the OS notification tray through the
+ * configured notifier backends, trying each until one succeeds.
  */
 function sendOSNotification(message: string) {
-  console.log("Attempting to send OS notification with Cursor IDE icon...");
+  const backends = notifier.createOsBackends(config.getNotifierBackend());
+  if (backends.length === 0) {
+    return;
+  }
 
   // Transform message to bulleted list
   const bulletedMessage = message
@@ -1041,307 +2003,18 @@ function sendOSNotification(message: string) {
     .map((line) => `  - ${line}`)
     .join("\n");
 
-  // Try multiple methods to send OS notifications with Cursor IDE icon
-  const methods = [
-    // Method 1: node-notifier with Cursor IDE icon
-    () => sendWithNodeNotifier(bulletedMessage),
-    // Method 2: macOS Notification Center with Cursor app icon
-    () => sendWithNotificationCenterCheck(bulletedMessage),
-    // Method 3: macOS terminal-notifier via osascript with Cursor app
-    () => sendWithTerminalNotifier(bulletedMessage),
-  ];
-
-  let success = false;
-  for (const method of methods) {
-    try {
-      if (method()) {
-        success = true;
-        break;
-      }
-    } catch (error) {
-      console.log("Method failed:", error);
-    }
-  }
-
-  if (!success) {
-    console.log(
-      "All OS notification methods failed, but Cursor notification is still working",
-    );
-  }
-}
-
-function sendWithNodeNotifier(message: string): boolean {
-  try {
-    const notifier = require("node-notifier");
-    const path = require("path");
-    const fs = require("fs");
-
-    // Try multiple icon paths for different scenarios
-    // VS Code extension context has different path resolution than standalone Node.js
-    const possibleIconPaths = [
-      // Method 1: Try to find the extension's assets directory (works in development)
-      (() => {
-        // Try different possible locations for the assets folder
-        const possibleAssetPaths = [
-          path.join(__dirname, "../../../assets/logo.png"), // Development path
-          path.join(__dirname, "../../assets/logo.png"), // Alternative dev path
-          path.join(__dirname, "../assets/logo.png"), // Bundled path
-          path.join(__dirname, "assets/logo.png"), // Direct path
-        ];
-
-        for (const assetPath of possibleAssetPaths) {
-          if (fs.existsSync(assetPath)) {
-            return assetPath;
-          }
-        }
-        return null;
-      })(),
-      // Method 2: Cursor app icons (may be restricted in extension context)
-      "/Applications/Cursor.app/Contents/Resources/cursor.png", // PNG version (more compatible)
-      "/Applications/Cursor.app/Contents/Resources/cursor.icns", // ICNS version (native but may be blocked)
-    ].filter(Boolean); // Remove null entries
-
-    let iconPath = null;
-    for (const testPath of possibleIconPaths) {
-      if (fs.existsSync(testPath)) {
-        iconPath = testPath;
-        console.log(
-          "Found icon at:",
-          testPath,
-          "- Size:",
-          fs.statSync(testPath).size,
-          "bytes - Extension:",
-          path.extname(testPath),
-        );
-        console.log(
-          "Extension context path resolution: __dirname =",
-          __dirname,
-        );
-
-        // If we found an ICNS file, try to use it directly
-        // ICNS should work with node-notifier, but if it doesn't, we have PNG fallbacks
-        if (path.extname(testPath) === ".icns") {
-          console.log("Using ICNS icon (native format for macOS)");
-        } else {
-          console.log("Using PNG icon (more compatible format)");
-        }
-        break;
-      }
-    }
-
-    // If no icon found, try to use a fallback approach
-    if (!iconPath) {
-      console.log(
-        "No icon found in any of the expected paths. Will send notification without icon.",
-      );
-    }
-
-    const notificationOptions = {
+  notifier
+    .sendOsNotification(backends, {
       title: "Cursor",
-      message: `Cursor Usage Summary: \n${message}`,
-      icon: iconPath, // Use found icon or null
-      sound: false,
-      wait: false,
-      timeout: NOTIFICATION_AUTO_CLOSE_TIME, // timeout for OS notifications
-      actions: ["Open Cursor", "Close"], // Click options
-    };
-
-    console.log("Sending OS notification with options:", {
-      title: notificationOptions.title,
-      message: notificationOptions.message,
-      icon: notificationOptions.icon,
-      hasIcon: !!iconPath,
-      iconSize: iconPath ? fs.statSync(iconPath).size : 0,
-      iconExtension: iconPath ? path.extname(iconPath) : "none",
-    });
-
-    // Try asynchronous call with error handling
-    notifier.notify(
-      notificationOptions,
-      (err: any, response: any, metadata: any) => {
-        if (err) {
-          // Filter out terminal-notifier errors as they're just fallback attempts
-          if (
-            err.code === "ENOENT" &&
-            err.path &&
-            err.path.includes("terminal-notifier")
-          ) {
-            console.log(
-              "OS notification sent via node-notifier (terminal-notifier fallback not available, but notification sent)",
-            );
-          } else {
-            console.log(
-              "OS notification sent via node-notifier with Cursor icon",
-            );
-          }
-
-          // Handle click actions if notification succeeded
-          if (metadata && metadata.activationType === "clicked") {
-            // User clicked the notification
-            if (metadata.activationValue === "Open Cursor") {
-              // Try to bring Cursor to front
-              require("child_process").exec(
-                'open -a "Cursor"',
-                (error: any) => {
-                  if (error) {
-                    console.log("Could not open Cursor:", error);
-                  }
-                },
-              );
-            }
-          }
-        } else {
-          console.log(
-            "OS notification sent via node-notifier with Cursor icon",
-          );
-          if (metadata && metadata.activationType === "clicked") {
-            // User clicked the notification
-            if (metadata.activationValue === "Open Cursor") {
-              // Try to bring Cursor to front
-              require("child_process").exec(
-                'open -a "Cursor"',
-                (error: any) => {
-                  if (error) {
-                    console.log("Could not open Cursor:", error);
-                  }
-                },
-              );
-            }
-          }
-        }
-      },
-    );
-
-    console.log("OS notification sent via node-notifier (async)");
-    return true;
-  } catch (error) {
-    console.log("node-notifier failed:", error);
-    return false;
-  }
-}
-
-function sendWithVSCodeSystem(message: string): boolean {
-  try {
-    // VS Code doesn't have a direct OS notification API, but we can use showInformationMessage
-    // which will at least show in the system if VS Code is configured that way
-    vscode.window.showInformationMessage(`${message} (System)`, "OK");
-    console.log("OS notification sent via VS Code system");
-    return true;
-  } catch (error) {
-    console.log("VS Code system notification failed:", error);
-    return false;
-  }
-}
-
-function sendWithNotificationCenterCheck(message: string): boolean {
-  try {
-    const { exec } = require("child_process");
-
-    // Escape the full message for shell command
-    const escapedMessage = message.replace(/"/g, '\\"').replace(/'/g, "\\'");
-
-    // Send notification directly with Cursor app reference
-    const cursorAppPath = "/Applications/Cursor.app";
-    const fullMessage = `Cursor Usage Summary: \n${escapedMessage}`;
-    const notificationCommand = `osascript -e 'tell application "${cursorAppPath}" to display notification "${fullMessage}" with title "Cursor" subtitle "Usage Update"'`;
-
-    console.log(
-      "Executing notification center command with Cursor app:",
-      notificationCommand,
-    );
-
-    exec(
-      notificationCommand,
-      (notifError: any, notifStdout: any, notifStderr: any) => {
-        if (notifError) {
-          console.log(
-            "Notification center notification failed:",
-            notifError.message,
-          );
-          console.log("stderr:", notifStderr);
-
-          // Try fallback without app reference
-          const fallbackFullMessage = `/* The above code is a comment in TypeScript. It is using a
-        multi-line comment syntax to provide a summary of the usage of
-        the "Cursor" in the code. */
-        Cursor Usage Summary: \n${escapedMessage}`;
-          const fallbackCommand = `osascript -e 'display notification "${fallbackFullMessage}" with title "Cursor" subtitle "Usage Update"'`;
-          exec(
-            fallbackCommand,
-            (fbError: any, fbStdout: any, fbStderr: any) => {
-              if (fbError) {
-                console.log(
-                  "Fallback notification center also failed:",
-                  fbError.message,
-                );
-              } else {
-                console.log(
-                  "OS notification sent via fallback Notification Center",
-                );
-              }
-            },
-          );
-        } else {
-          console.log(
-            "OS notification sent via Notification Center with Cursor app",
-          );
-        }
-      },
-    );
-
-    return true;
-  } catch (error) {
-    console.log("Notification center check not available:", error);
-    return false;
-  }
-}
-
-function sendWithTerminalNotifier(message: string): boolean {
-  try {
-    // Try using the macOS terminal-notifier command if available
-    const { exec } = require("child_process");
-
-    // Escape quotes in message for shell command
-    const escapedMessage = message.replace(/"/g, '\\"').replace(/'/g, "\\'");
-
-    // Use AppleScript display notification with Cursor app icon
-    const cursorAppPath = "/Applications/Cursor.app";
-    const fullMessage = `Cursor Usage Summary: \n${escapedMessage}`;
-    const command = `osascript -e 'tell application "${cursorAppPath}" to display notification "${fullMessage}" with title "Cursor" subtitle "Usage Update"'`;
-
-    console.log(
-      "Executing macOS notification command with Cursor app:",
-      command,
-    );
-
-    exec(command, (error: any, stdout: any, stderr: any) => {
-      if (error) {
-        console.log("macOS notification failed:", error.message);
-        console.log("stderr:", stderr);
-
-        // Try alternative AppleScript syntax without app reference
-        const altFullMessage = `Cursor Usage Summary: \n${escapedMessage}`;
-        const altCommand = `osascript -e 'display notification "${altFullMessage}" with title "Cursor" subtitle "Usage Update"'`;
-        exec(altCommand, (altError: any, altStdout: any, altStderr: any) => {
-          if (altError) {
-            console.log(
-              "Alternative AppleScript also failed:",
-              altError.message,
-            );
-          } else {
-            console.log("OS notification sent via alternative AppleScript");
-          }
-        });
-      } else {
-        console.log(
-          "OS notification sent via macOS AppleScript with Cursor app",
+      subtitle: "Usage Update",
+      message: `Cursor Usage Summary: \n${bulletedMessage}`,
+      timeoutMs: NOTIFICATION_AUTO_CLOSE_TIME,
+    })
+    .then((sentVia) => {
+      if (!sentVia) {
+        logger.info(
+          "All OS notification methods failed, but Cursor notification is still working",
         );
       }
     });
-
-    return true;
-  } catch (error) {
-    console.log("macOS notification not available:", error);
-    return false;
-  }
 }
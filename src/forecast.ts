@@ -0,0 +1,322 @@
+import * as vscode from "vscode";
+
+/**
+ * Usage at the time of one refresh, kept to learn the user's daily pattern.
+ */
+export interface ForecastSample {
+  timestamp: number; // epoch milliseconds
+  usedRequests: number;
+  spendCents?: number;
+  startOfMonth: string; // billing cycle the sample belongs to
+  model?: string; // model bucket usedRequests refers to
+}
+
+/**
+ * Requests and spend used on one local calendar day.
+ */
+export interface DailyUsage {
+  day: number; // epoch milliseconds of the start of the day
+  requests: number;
+  spendCents: number;
+}
+
+/**
+ * Current usage figures to project from.
+ */
+export interface ForecastInput {
+  usedRequests: number;
+  maxRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  startOfMonth: string;
+  resetDate: Date;
+  model?: string;
+}
+
+/**
+ * Projected usage at the end of the billing cycle, with an 80% confidence range.
+ * Spend figures are only set when spend data is available.
+ */
+export interface Forecast {
+  projectedRequests: number;
+  requestsLow: number;
+  requestsHigh: number;
+  projectedSpendCents?: number;
+  spendLowCents?: number;
+  spendHighCents?: number;
+  exceedsBudget: boolean; // projected spend is above the hard limit
+  weekdayRate: number; // requests per weekday
+  weekendRate: number; // requests per weekend day
+  recentRate: number; // requests per day over the recent window
+  daysObserved: number;
+}
+
+const FORECAST_SAMPLES_KEY = "forecastSamples";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAMPLE_RETENTION_DAYS = 62; // the current and the previous cycle
+const MIN_SAMPLE_SPACING_MS = 15 * 60 * 1000;
+const MAX_SAMPLES = 2000;
+const RECENT_WINDOW_DAYS = 7;
+const Z_80 = 1.2816; // z-score of an 80% two-sided confidence range
+
+/**
+ * What a request beyond the plan's quota costs when no overage has been observed yet.
+ */
+export const DEFAULT_CENTS_PER_REQUEST = 4;
+
+/**
+ * Returns the persisted forecast samples, oldest first.
+ * @param context VS Code extension context
+ */
+export function getForecastSamples(
+  context: vscode.ExtensionContext,
+): ForecastSample[] {
+  return context.globalState.get<ForecastSample[]>(FORECAST_SAMPLES_KEY) ?? [];
+}
+
+/**
+ * Persists the usage seen by a refresh.
+ * @param context VS Code extension context
+ * @param sample The usage to record
+ */
+export async function recordForecastSample(
+  context: vscode.ExtensionContext,
+  sample: ForecastSample,
+): Promise<void> {
+  await context.globalState.update(
+    FORECAST_SAMPLES_KEY,
+    pruneSamples([...getForecastSamples(context), sample], sample.timestamp),
+  );
+}
+
+/**
+ * Drops samples older than the retention window, keeps only the latest of
+ * samples taken within MIN_SAMPLE_SPACING_MS of each other, and caps the count.
+ * @param samples Samples in any order
+ * @param now Current time in milliseconds
+ * @returns Retained samples sorted by timestamp
+ */
+export function pruneSamples(
+  samples: ForecastSample[],
+  now: number,
+): ForecastSample[] {
+  const sorted = samples
+    .filter((s) => s.timestamp >= now - SAMPLE_RETENTION_DAYS * DAY_MS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const result: ForecastSample[] = [];
+  for (const sample of sorted) {
+    const previous = result[result.length - 1];
+    if (
+      previous &&
+      previous.startOfMonth === sample.startOfMonth &&
+      sample.timestamp - previous.timestamp < MIN_SAMPLE_SPACING_MS
+    ) {
+      result[result.length - 1] = sample;
+    } else {
+      result.push(sample);
+    }
+  }
+  return result.slice(-MAX_SAMPLES);
+}
+
+/**
+ * Returns the start of the local calendar day after the one containing `time`.
+ */
+function nextDayStart(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + 1);
+  return date.getTime();
+}
+
+/**
+ * Checks whether `time` falls on a Saturday or Sunday (local time).
+ */
+function isWeekend(time: number): boolean {
+  const weekday = new Date(time).getDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Interpolates cumulative usage between samples.
+ * @param points Cumulative usage points sorted by time
+ * @param time The time to read usage at, within the points' range
+ */
+function usageAt(
+  points: { time: number; requests: number; spendCents: number }[],
+  time: number,
+): { requests: number; spendCents: number } {
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [points[i - 1], points[i]];
+    if (time <= b.time) {
+      const ratio = b.time > a.time ? (time - a.time) / (b.time - a.time) : 1;
+      return {
+        requests: a.requests + (b.requests - a.requests) * ratio,
+        spendCents: a.spendCents + (b.spendCents - a.spendCents) * ratio,
+      };
+    }
+  }
+  return points[points.length - 1];
+}
+
+/**
+ * Reconstructs per-day usage from the samples. Usage between two refreshes is
+ * spread evenly over the time between them, and each cycle starts from zero.
+ * Only whole days covered by samples are returned.
+ * @param samples Samples sorted by timestamp
+ * @param model Only use samples of this model bucket (optional)
+ * @returns Daily usage, oldest first
+ */
+export function getDailyUsage(
+  samples: ForecastSample[],
+  model?: string,
+): DailyUsage[] {
+  const cycles = new Map<string, ForecastSample[]>();
+  for (const sample of samples) {
+    if (model !== undefined && sample.model !== model) {
+      continue;
+    }
+    cycles.set(sample.startOfMonth, [
+      ...(cycles.get(sample.startOfMonth) ?? []),
+      sample,
+    ]);
+  }
+
+  const days: DailyUsage[] = [];
+  for (const [startOfMonth, cycleSamples] of cycles) {
+    const cycleStart = Date.parse(startOfMonth);
+    const points = [
+      { time: cycleStart, requests: 0, spendCents: 0 },
+      ...cycleSamples
+        .filter((s) => s.timestamp > cycleStart)
+        .map((s) => ({
+          time: s.timestamp,
+          requests: s.usedRequests,
+          spendCents: s.spendCents ?? 0,
+        })),
+    ];
+    const lastTime = points[points.length - 1].time;
+
+    for (
+      let day = nextDayStart(cycleStart);
+      nextDayStart(day) <= lastTime;
+      day = nextDayStart(day)
+    ) {
+      const start = usageAt(points, day);
+      const end = usageAt(points, nextDayStart(day));
+      days.push({
+        day,
+        requests: Math.max(0, end.requests - start.requests),
+        spendCents: Math.max(0, end.spendCents - start.spendCents),
+      });
+    }
+  }
+  return days.sort((a, b) => a.day - b.day);
+}
+
+/**
+ * Averages a list of numbers.
+ */
+function mean(values: number[]): number | undefined {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+}
+
+/**
+ * Estimates what one request beyond the quota costs from days with spend.
+ */
+function estimateCentsPerRequest(days: DailyUsage[]): number {
+  const billed = days.filter((d) => d.spendCents > 0 && d.requests > 0);
+  const requests = billed.reduce((sum, d) => sum + d.requests, 0);
+  const spendCents = billed.reduce((sum, d) => sum + d.spendCents, 0);
+  return requests > 0 ? spendCents / requests : DEFAULT_CENTS_PER_REQUEST;
+}
+
+/**
+ * Projects end-of-cycle requests and spend from the daily usage pattern.
+ * Each remaining day is expected to use the average of its day type's rate
+ * (weekday or weekend) and the rate of the last RECENT_WINDOW_DAYS days.
+ * Requests beyond the remaining quota are priced at the observed overage cost.
+ * @param samples Persisted samples, oldest first
+ * @param input Current usage
+ * @param now Current time in milliseconds
+ * @returns The forecast, or undefined until at least one whole day has been observed
+ */
+export function computeForecast(
+  samples: ForecastSample[],
+  input: ForecastInput,
+  now: number = Date.now(),
+): Forecast | undefined {
+  const days = getDailyUsage(
+    samples.filter((s) => s.timestamp <= now),
+    input.model,
+  );
+  const overallRate = mean(days.map((d) => d.requests));
+  if (overallRate === undefined) {
+    return undefined;
+  }
+
+  const weekdayRate =
+    mean(days.filter((d) => !isWeekend(d.day)).map((d) => d.requests)) ??
+    overallRate;
+  const weekendRate =
+    mean(days.filter((d) => isWeekend(d.day)).map((d) => d.requests)) ??
+    overallRate;
+  const recentRate =
+    mean(days.slice(-RECENT_WINDOW_DAYS).map((d) => d.requests)) ?? overallRate;
+
+  const variance =
+    days.length > 1
+      ? days.reduce((sum, d) => sum + (d.requests - overallRate) ** 2, 0) /
+        (days.length - 1)
+      : (overallRate / 2) ** 2;
+
+  // Walk the rest of the cycle day by day
+  let futureRequests = 0;
+  let futureDays = 0;
+  const resetTime = input.resetDate.getTime();
+  for (let time = now; time < resetTime; ) {
+    const next = Math.min(nextDayStart(time), resetTime);
+    const fraction = (next - time) / DAY_MS;
+    const typeRate = isWeekend(time) ? weekendRate : weekdayRate;
+    futureRequests += ((typeRate + recentRate) / 2) * fraction;
+    futureDays += fraction;
+    time = next;
+  }
+
+  const margin = Z_80 * Math.sqrt(variance * futureDays);
+  const requestsLow = Math.max(0, futureRequests - margin);
+  const requestsHigh = futureRequests + margin;
+
+  const forecast: Forecast = {
+    projectedRequests: Math.round(input.usedRequests + futureRequests),
+    requestsLow: Math.round(input.usedRequests + requestsLow),
+    requestsHigh: Math.round(input.usedRequests + requestsHigh),
+    exceedsBudget: false,
+    weekdayRate,
+    weekendRate,
+    recentRate,
+    daysObserved: days.length,
+  };
+
+  const spendCents = input.spendCents;
+  if (spendCents !== undefined) {
+    const remainingQuota = Math.max(0, input.maxRequests - input.usedRequests);
+    const centsPerRequest = estimateCentsPerRequest(days);
+    const spendFor = (requests: number) =>
+      Math.round(
+        spendCents + Math.max(0, requests - remainingQuota) * centsPerRequest,
+      );
+
+    forecast.projectedSpendCents = spendFor(futureRequests);
+    forecast.spendLowCents = spendFor(requestsLow);
+    forecast.spendHighCents = spendFor(requestsHigh);
+    forecast.exceedsBudget =
+      input.hardLimitDollars !== undefined &&
+      forecast.projectedSpendCents > input.hardLimitDollars * 100;
+  }
+
+  return forecast;
+}
@@ -0,0 +1,186 @@
+import { formatTokens } from "./modelUsage";
+
+/**
+ * What the status bar number shows.
+ * requests: remaining requests, then spend vs. limit once they run out (the default).
+ * tokens: remaining tokens, or tokens used when the model has no token limit.
+ * custom: the user's format template.
+ * The other modes render the template of the same name in MODE_TEMPLATES.
+ */
+export type StatusBarDisplayMode =
+  | "requests"
+  | "remaining"
+  | "usedTotal"
+  | "percentage"
+  | "spend"
+  | "resetDays"
+  | "projected"
+  | "tokens"
+  | "custom";
+
+export const STATUS_BAR_DISPLAY_MODES: StatusBarDisplayMode[] = [
+  "requests",
+  "remaining",
+  "usedTotal",
+  "percentage",
+  "spend",
+  "resetDays",
+  "projected",
+  "tokens",
+  "custom",
+];
+
+export const DEFAULT_STATUS_BAR_FORMAT = "{remaining}/{total}";
+
+/**
+ * Templates of the display modes that are plain templates.
+ */
+const MODE_TEMPLATES: Partial<Record<StatusBarDisplayMode, string>> = {
+  remaining: "{remaining}",
+  usedTotal: "{used}/{total}",
+  percentage: "{percent}%",
+  spend: "{spend}/{limit}",
+  resetDays: "{resetDays}d",
+  projected: "~{projected}/{total}",
+};
+
+/**
+ * The usage figures a status bar text can be built from.
+ */
+export interface UsageFigures {
+  remainingRequests: number;
+  totalRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  daysRemaining?: number; // days until the cycle resets
+  dailyUsageRate?: number; // average requests per day in the current cycle
+  usedTokens?: number;
+  maxTokens?: number; // token limit of the model, if it has one
+  model?: string;
+}
+
+/** Shown for a placeholder whose value is not known, e.g. spend without team data. */
+const UNKNOWN = "?";
+
+/**
+ * Computes the value of every template placeholder.
+ * @param figures Current usage figures
+ * @returns The placeholder values by name, UNKNOWN when a value is not available
+ */
+export function getPlaceholderValues(
+  figures: UsageFigures,
+): Record<string, string> {
+  const usedRequests = figures.totalRequests - figures.remainingRequests;
+  const projected =
+    figures.dailyUsageRate !== undefined && figures.daysRemaining !== undefined
+      ? Math.round(
+          usedRequests + figures.dailyUsageRate * figures.daysRemaining,
+        )
+      : undefined;
+
+  return {
+    remaining: String(figures.remainingRequests),
+    total: String(figures.totalRequests),
+    used: String(usedRequests),
+    percent:
+      figures.totalRequests > 0
+        ? String(Math.round((usedRequests / figures.totalRequests) * 100))
+        : UNKNOWN,
+    spend:
+      figures.spendCents !== undefined
+        ? `$${(figures.spendCents / 100).toFixed(2)}`
+        : UNKNOWN,
+    limit:
+      figures.hardLimitDollars !== undefined
+        ? `$${figures.hardLimitDollars.toFixed(2)}`
+        : UNKNOWN,
+    resetDays:
+      figures.daysRemaining !== undefined
+        ? String(figures.daysRemaining)
+        : UNKNOWN,
+    projected: projected !== undefined ? String(projected) : UNKNOWN,
+    tokens:
+      figures.usedTokens !== undefined
+        ? formatTokens(figures.usedTokens)
+        : UNKNOWN,
+    tokensRemaining:
+      figures.usedTokens !== undefined && figures.maxTokens !== undefined
+        ? formatTokens(Math.max(0, figures.maxTokens - figures.usedTokens))
+        : UNKNOWN,
+    model: figures.model ?? UNKNOWN,
+  };
+}
+
+/**
+ * Renders a format template such as "{remaining}/{total} · {resetDays}d".
+ * Unknown placeholders are left as they are so typos stay visible.
+ * @param template The template
+ * @param figures Current usage figures
+ */
+export function renderTemplate(
+  template: string,
+  figures: UsageFigures,
+): string {
+  const values = getPlaceholderValues(figures);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder,
+  );
+}
+
+/**
+ * Builds the status bar text (without the icon) for a display mode.
+ * @param mode The display mode
+ * @param figures Current usage figures
+ * @param template The user's format template, used by the "custom" mode
+ */
+export function formatStatusText(
+  mode: StatusBarDisplayMode,
+  figures: UsageFigures,
+  template: string = DEFAULT_STATUS_BAR_FORMAT,
+): string {
+  if (mode === "custom") {
+    return renderTemplate(template, figures);
+  }
+  const modeTemplate = MODE_TEMPLATES[mode];
+  if (modeTemplate) {
+    return renderTemplate(modeTemplate, figures);
+  }
+
+  if (mode === "tokens" && figures.usedTokens !== undefined) {
+    return renderTemplate(
+      figures.maxTokens !== undefined ? "{tokensRemaining}" : "{tokens}",
+      figures,
+    );
+  }
+
+  // "requests", and "tokens" without token data: remaining requests, then
+  // spend vs. limit once they run out
+  if (figures.remainingRequests > 0) {
+    return String(figures.remainingRequests);
+  }
+  if (
+    figures.spendCents !== undefined &&
+    figures.hardLimitDollars !== undefined
+  ) {
+    return renderTemplate("{spend}/{limit}", figures);
+  }
+  return "0";
+}
+
+/**
+ * Formats how long ago something happened, e.g. "5m ago" or "3h ago".
+ * @param ageMs Time elapsed since then, in milliseconds
+ */
+export function formatAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 1) {
+    return "just now";
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,217 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { ModelUsage } from "./models";
+import * as logger from "./logger";
+
+/**
+ * A single point-in-time record of the user's usage, captured after each successful refresh.
+ */
+export interface UsageSnapshot {
+  timestamp: number; // epoch milliseconds
+  usedRequests: number;
+  maxRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  startOfMonth: string; // ISO date string of the billing cycle the snapshot belongs to
+  teamId?: number;
+  model?: string; // model bucket usedRequests/maxRequests refer to
+  models?: Record<string, ModelUsage>; // every model bucket at the time of the snapshot
+}
+
+/**
+ * Filters accepted by {@link getSnapshots}. All fields are optional and combined with AND.
+ */
+export interface SnapshotQuery {
+  from?: number; // inclusive epoch milliseconds
+  to?: number; // inclusive epoch milliseconds
+  startOfMonth?: string;
+  teamId?: number;
+}
+
+/**
+ * On-disk layout of the history file. Bump HISTORY_VERSION when the shape changes
+ * and teach migrateHistory how to upgrade older files.
+ */
+interface HistoryFile {
+  version: number;
+  snapshots: UsageSnapshot[];
+}
+
+const HISTORY_FILE_NAME = "usage-history.json";
+const HISTORY_VERSION = 1;
+const MAX_SNAPSHOTS = 5000; // hard cap so the file can never grow unbounded
+
+let historyFilePath: string | undefined;
+let snapshots: UsageSnapshot[] = [];
+let loadPromise: Promise<void> = Promise.resolve();
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Starts loading the history store from the extension's global storage directory.
+ * Snapshots recorded before loading completes wait for it, so nothing is overwritten.
+ * @param context VS Code extension context
+ */
+export function initializeHistory(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  loadPromise = loadHistory(context.globalStorageUri.fsPath);
+  return loadPromise;
+}
+
+/**
+ * Reads the history file from disk into memory.
+ * @param storageDir Directory holding the history file
+ */
+async function loadHistory(storageDir: string): Promise<void> {
+  historyFilePath = path.join(storageDir, HISTORY_FILE_NAME);
+
+  try {
+    await fs.mkdir(storageDir, { recursive: true });
+    const raw = await fs.readFile(historyFilePath, "utf8");
+    snapshots = migrateHistory(JSON.parse(raw));
+    logger.info(`Loaded ${snapshots.length} usage history snapshots`);
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      logger.warn(
+        `Could not read usage history, starting fresh: ${error.message}`,
+      );
+    }
+    snapshots = [];
+  }
+}
+
+/**
+ * Upgrades a parsed history file to the current version.
+ * Unknown or newer versions are discarded rather than risk misreading them.
+ * @param data Parsed JSON contents of the history file
+ * @returns The snapshots in the current format
+ */
+function migrateHistory(data: any): UsageSnapshot[] {
+  if (!data || !Array.isArray(data.snapshots)) {
+    return [];
+  }
+  if (data.version !== HISTORY_VERSION) {
+    logger.warn(
+      `Unsupported usage history version ${data.version}, discarding`,
+    );
+    return [];
+  }
+  return data.snapshots;
+}
+
+/**
+ * Records a new snapshot, applies retention and persists the store.
+ * @param snapshot The snapshot to record
+ * @param retainedCycles Number of billing cycles to keep
+ */
+export async function recordSnapshot(
+  snapshot: UsageSnapshot,
+  retainedCycles: number,
+): Promise<void> {
+  await loadPromise;
+  snapshots = compactSnapshots([...snapshots, snapshot], retainedCycles);
+  await persist();
+}
+
+/**
+ * Applies retention and compaction rules to a list of snapshots:
+ * - only the most recent `retainedCycles` billing cycles are kept
+ * - past cycles are compacted to the last snapshot of each day (per team)
+ * - the result is capped at MAX_SNAPSHOTS, dropping the oldest entries
+ * @param input Snapshots in any order
+ * @param retainedCycles Number of billing cycles to keep
+ * @returns Retained snapshots sorted by timestamp
+ */
+export function compactSnapshots(
+  input: UsageSnapshot[],
+  retainedCycles: number,
+): UsageSnapshot[] {
+  const sorted = [...input].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) {
+    return sorted;
+  }
+
+  const cycles = Array.from(new Set(sorted.map((s) => s.startOfMonth)))
+    .sort()
+    .reverse();
+  const keptCycles = new Set(cycles.slice(0, Math.max(1, retainedCycles)));
+  const currentCycle = cycles[0];
+
+  // Walk newest-first so the first snapshot seen for a day is the last one taken that day
+  const seenDays = new Set<string>();
+  const result: UsageSnapshot[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const snapshot = sorted[i];
+    if (!keptCycles.has(snapshot.startOfMonth)) {
+      continue;
+    }
+    if (snapshot.startOfMonth !== currentCycle) {
+      const dayKey = `${snapshot.teamId ?? ""}|${new Date(snapshot.timestamp).toISOString().split("T")[0]}`;
+      if (seenDays.has(dayKey)) {
+        continue;
+      }
+      seenDays.add(dayKey);
+    }
+    result.push(snapshot);
+  }
+
+  return result.reverse().slice(-MAX_SNAPSHOTS);
+}
+
+/**
+ * Writes the in-memory snapshots to disk. Writes are serialized and go through
+ * a temporary file so a crash mid-write never leaves a truncated history file.
+ */
+function persist(): Promise<void> {
+  const filePath = historyFilePath;
+  if (!filePath) {
+    return Promise.resolve();
+  }
+  const file: HistoryFile = { version: HISTORY_VERSION, snapshots };
+  const contents = JSON.stringify(file);
+
+  writeQueue = writeQueue
+    .then(async () => {
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, contents, "utf8");
+      await fs.rename(tempPath, filePath);
+    })
+    .catch((error: any) => {
+      logger.error(`Failed to persist usage history: ${error.message}`);
+    });
+  return writeQueue;
+}
+
+/**
+ * Returns the recorded snapshots matching the query, oldest first.
+ * @param query Optional filters
+ */
+export function getSnapshots(query: SnapshotQuery = {}): UsageSnapshot[] {
+  return snapshots.filter(
+    (s) =>
+      (query.from === undefined || s.timestamp >= query.from) &&
+      (query.to === undefined || s.timestamp <= query.to) &&
+      (query.startOfMonth === undefined ||
+        s.startOfMonth === query.startOfMonth) &&
+      (query.teamId === undefined || s.teamId === query.teamId),
+  );
+}
+
+/**
+ * Returns the most recent snapshot, optionally restricted to a team.
+ * @param teamId Optional team ID filter
+ */
+export function getLatestSnapshot(teamId?: number): UsageSnapshot | undefined {
+  const matching = getSnapshots({ teamId });
+  return matching[matching.length - 1];
+}
+
+/**
+ * Returns the billing cycles (startOfMonth values) present in the history, newest first.
+ */
+export function getCycles(): string[] {
+  return Array.from(new Set(snapshots.map((s) => s.startOfMonth)))
+    .sort()
+    .reverse();
+}
@@ -0,0 +1,63 @@
+import * as vscode from "vscode";
+import { CursorApiError } from "./errors";
+import { SharedUsage } from "./windowCoordinator";
+
+/**
+ * The usage of the last successful refresh, kept so it can be shown while
+ * Cursor can't be reached and straight away when the editor starts.
+ */
+export interface LastKnownGood {
+  timestamp: number; // epoch milliseconds of the refresh
+  usage: SharedUsage;
+}
+
+const LAST_KNOWN_GOOD_KEY = "lastKnownGoodUsage";
+
+/**
+ * Returns the usage of the last successful refresh, if any.
+ * @param context VS Code extension context
+ */
+export function getLastKnownGood(
+  context: vscode.ExtensionContext,
+): LastKnownGood | undefined {
+  return context.globalState.get<LastKnownGood>(LAST_KNOWN_GOOD_KEY);
+}
+
+/**
+ * Persists the usage of a successful refresh.
+ * @param context VS Code extension context
+ * @param usage The usage shown in the status bar
+ * @param timestamp When it was fetched, in milliseconds
+ */
+export async function saveLastKnownGood(
+  context: vscode.ExtensionContext,
+  usage: SharedUsage,
+  timestamp: number = Date.now(),
+): Promise<void> {
+  await context.globalState.update(LAST_KNOWN_GOOD_KEY, { timestamp, usage });
+}
+
+/**
+ * Forgets the last known usage, e.g. when the cookie or team changes and it
+ * belongs to another account.
+ * @param context VS Code extension context
+ */
+export async function clearLastKnownGood(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  await context.globalState.update(LAST_KNOWN_GOOD_KEY, undefined);
+}
+
+/**
+ * Checks whether a failed refresh should keep showing the last known usage.
+ * That is the case when retrying later can fix it; session, access and API
+ * format errors need the user's attention instead.
+ * @param error The error the refresh failed with
+ */
+export function keepsLastKnownGood(error: CursorApiError): boolean {
+  return (
+    error.kind !== "authExpired" &&
+    error.kind !== "forbidden" &&
+    error.kind !== "formatChanged"
+  );
+}
@@ -0,0 +1,179 @@
+import type { LogOutputChannel } from "vscode";
+
+/**
+ * Log levels, from most to least verbose. `off` logs nothing.
+ */
+export const LOG_LEVELS = [
+  "trace",
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "off",
+] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+// Our names for the levels of vscode.LogLevel, indexed by its values (Off = 0 to Error = 5)
+const CHANNEL_LOG_LEVELS: readonly LogLevel[] = [
+  "off",
+  "trace",
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+const REDACTED = "<redacted>";
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// The session cookie as it appears in a Cookie header or a pasted cookie string
+const SESSION_COOKIE_PATTERN = /(WorkosCursorSessionToken=)[^;\s"']+/g;
+// A JWT, which is what the session cookie carries
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+let channel: LogOutputChannel | undefined;
+let level: LogLevel = DEFAULT_LOG_LEVEL;
+const secrets = new Set<string>();
+
+/**
+ * Sends log messages to an Output channel, whose level (set with VS Code's
+ * "Set Log Level…") decides what is written. Until this is called (e.g. in
+ * tests), they go to the console instead.
+ * @param outputChannel The channel created with `{ log: true }`
+ */
+export function initializeLogger(outputChannel: LogOutputChannel): void {
+  channel = outputChannel;
+}
+
+/**
+ * Sets the least severe level written to the console while there is no
+ * Output channel. The channel's own level applies once there is one.
+ * @param newLevel The level
+ */
+export function setLogLevel(newLevel: LogLevel): void {
+  level = newLevel;
+}
+
+/**
+ * Returns the least severe level that is logged: the Output channel's level,
+ * or the console's while there is no channel.
+ */
+export function getLogLevel(): LogLevel {
+  return channel ? toLogLevel(channel.logLevel) : level;
+}
+
+/**
+ * Converts a vscode.LogLevel value to the name used in the settings.
+ * @param channelLevel The level of a log Output channel
+ */
+export function toLogLevel(channelLevel: number): LogLevel {
+  return CHANNEL_LOG_LEVELS[channelLevel] ?? DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Registers a secret, e.g. the session cookie, that must never appear in the
+ * log. Every occurrence is replaced before a message is written.
+ * @param secret The secret value (ignored if empty)
+ */
+export function addSecret(secret: string | undefined): void {
+  if (secret) {
+    secrets.add(secret);
+  }
+}
+
+/**
+ * Reveals the Output channel with the log, if there is one.
+ */
+export function showLogs(): void {
+  channel?.show(true);
+}
+
+/**
+ * Masks registered secrets, session cookie values, JWTs and email addresses.
+ * @param message The text to redact
+ * @returns The text with sensitive values replaced
+ */
+export function redact(message: string): string {
+  let redacted = message;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted
+    .replace(SESSION_COOKIE_PATTERN, `$1${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, "<email>");
+}
+
+/**
+ * Turns a message and its extra arguments into one redacted line.
+ */
+function format(message: string, args: unknown[]): string {
+  const parts = [message, ...args.map(formatArgument)];
+  return redact(parts.join(" "));
+}
+
+function formatArgument(arg: unknown): string {
+  if (arg instanceof Error) {
+    return arg.stack ?? `${arg.name}: ${arg.message}`;
+  }
+  if (typeof arg === "string") {
+    return arg;
+  }
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * Writes a message if its level is enabled. Disabled messages are dropped
+ * before they are formatted.
+ */
+function log(
+  messageLevel: Exclude<LogLevel, "off">,
+  message: string,
+  args: unknown[],
+): void {
+  if (LOG_LEVELS.indexOf(messageLevel) < LOG_LEVELS.indexOf(getLogLevel())) {
+    return;
+  }
+  const line = format(message, args);
+  if (channel) {
+    channel[messageLevel](line);
+    return;
+  }
+  const write =
+    messageLevel === "error"
+      ? console.error
+      : messageLevel === "warn"
+        ? console.warn
+        : console.log;
+  write(`[Cursor Usage] ${line}`);
+}
+
+/** Logs step-by-step detail, e.g. every cache lookup. */
+export function trace(message: string, ...args: unknown[]): void {
+  log("trace", message, args);
+}
+
+/** Logs detail useful when diagnosing a problem, e.g. each API request. */
+export function debug(message: string, ...args: unknown[]): void {
+  log("debug", message, args);
+}
+
+/** Logs what the extension is doing, e.g. a refresh that completed. */
+export function info(message: string, ...args: unknown[]): void {
+  log("info", message, args);
+}
+
+/** Logs a problem the extension recovers from, e.g. a retried request. */
+export function warn(message: string, ...args: unknown[]): void {
+  log("warn", message, args);
+}
+
+/** Logs a failure, e.g. a refresh that could not complete. */
+export function error(message: string, ...args: unknown[]): void {
+  log("error", message, args);
+}
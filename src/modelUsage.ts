@@ -0,0 +1,68 @@
+import { ModelUsage } from "./models";
+
+/**
+ * The bucket that counts fast premium requests. It is the one the team spend
+ * API's `fastPremiumRequests` refers to, and the default for the status bar.
+ */
+export const PREMIUM_MODEL = "gpt-4";
+
+/**
+ * Usage of a single model bucket.
+ */
+export interface ModelBucket {
+  model: string;
+  usage: ModelUsage;
+}
+
+/**
+ * Lists every model bucket in a usage response (or a recorded map of buckets),
+ * the premium bucket first and the rest by name.
+ * @param usage The response from /api/usage
+ */
+export function getModelBuckets(usage: {
+  [key: string]: ModelUsage | string;
+}): ModelBucket[] {
+  return Object.keys(usage)
+    .filter((key) => typeof usage[key] === "object" && usage[key] !== null)
+    .map((model) => ({ model, usage: usage[model] as ModelUsage }))
+    .sort((a, b) =>
+      a.model === PREMIUM_MODEL
+        ? -1
+        : b.model === PREMIUM_MODEL
+          ? 1
+          : a.model.localeCompare(b.model),
+    );
+}
+
+/**
+ * Picks the bucket that drives the status bar number. Falls back to the premium
+ * bucket, then to the first bucket with a request limit, when the preferred
+ * model is missing or has no limit.
+ * @param buckets The buckets from getModelBuckets
+ * @param preferred The model chosen in the settings
+ */
+export function selectStatusBarBucket(
+  buckets: ModelBucket[],
+  preferred: string,
+): ModelBucket | undefined {
+  const limited = buckets.filter((b) => b.usage.maxRequestUsage !== null);
+  return (
+    limited.find((b) => b.model === preferred) ??
+    limited.find((b) => b.model === PREMIUM_MODEL) ??
+    limited[0] ??
+    buckets[0]
+  );
+}
+
+/**
+ * Formats a token count compactly, e.g. 950, 45.2k or 1.3M.
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
@@ -21,6 +21,14 @@ export interface TeamDetails {
   userId: number;
 }
 
+/**
+ * Represents the hard limit on a team's usage-based spending.
+ * Returned by the /api/dashboard/get-hard-limit endpoint.
+ */
+export interface TeamHardLimit {
+  hardLimit?: number; // dollars per member; absent if the team has no limit
+}
+
 /**
  * Represents the usage data for a single team member.
  */
@@ -67,10 +75,10 @@ export interface ModelUsage {
 
 /**
  * Represents the response from /api/usage?user=USER_ID endpoint for individual user usage.
+ * Every key other than startOfMonth is a model bucket (e.g. "gpt-4"); the set of
+ * models changes over time, so use getModelBuckets to list them.
  */
 export interface UserUsageResponse {
-  "gpt-4": ModelUsage;
-  "gpt-3.5-turbo": ModelUsage;
-  "gpt-4-32k": ModelUsage;
   startOfMonth: string; // ISO date string
+  [model: string]: ModelUsage | string;
 }
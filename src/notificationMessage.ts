@@ -0,0 +1,96 @@
+import { BillingCycle, calculateDailyUsageRate } from "./billingCycle";
+import { PREMIUM_MODEL } from "./modelUsage";
+import { AlertThresholds, evaluateUsage } from "./thresholds";
+import { SharedUsage } from "./windowCoordinator";
+
+/**
+ * Renders usage as the text of a usage notification, one line per fact:
+ * requests, spending and remaining budget, the reset, then any warnings.
+ * It works on the usage data itself, so it does not depend on how the status
+ * bar words its tooltip.
+ * @param usage The usage to report
+ * @param cycle The billing cycle the usage belongs to
+ * @param thresholds Thresholds the warnings are evaluated against
+ * @returns The lines, joined with newlines
+ */
+export function renderUsageMessage(
+  usage: SharedUsage,
+  cycle: BillingCycle,
+  thresholds: AlertThresholds,
+): string {
+  const { remainingRequests, totalRequests, spendCents, hardLimitDollars } =
+    usage;
+  const model = usage.statusBarModel ?? PREMIUM_MODEL;
+  const usedRequests = totalRequests - remainingRequests;
+  const dailyUsageRate = calculateDailyUsageRate(usedRequests, cycle);
+  const tokenUsage = usage.modelBuckets.find(
+    (bucket) => bucket.model === model,
+  )?.usage;
+  const evaluation = evaluateUsage(
+    {
+      remainingRequests,
+      totalRequests,
+      spendCents,
+      hardLimitDollars,
+      dailyUsageRate,
+      daysRemaining: cycle.daysRemaining,
+      usedTokens: tokenUsage?.numTokens,
+      maxTokens: tokenUsage?.maxTokenUsage ?? undefined,
+      dailyTokenRate:
+        tokenUsage !== undefined
+          ? calculateDailyUsageRate(tokenUsage.numTokens, cycle)
+          : undefined,
+      projectedSpendCents: usage.forecast?.projectedSpendCents,
+    },
+    thresholds,
+  );
+
+  const lines: string[] = [];
+
+  const requestsLabel =
+    model === PREMIUM_MODEL ? "Fast Premium Requests" : `${model} Requests`;
+  const requestPercentage = ((usedRequests / totalRequests) * 100).toFixed(1);
+  lines.push(
+    `${requestsLabel}: ${remainingRequests}/${totalRequests} remaining (${requestPercentage}% used)`,
+  );
+
+  if (spendCents !== undefined && hardLimitDollars !== undefined) {
+    const spendDollars = spendCents / 100;
+    const spendPercentage = ((spendDollars / hardLimitDollars) * 100).toFixed(
+      1,
+    );
+    lines.push(
+      `Spending: $${spendDollars.toFixed(2)} of $${hardLimitDollars.toFixed(2)} limit (${spendPercentage}% used)`,
+    );
+    lines.push(
+      `Remaining budget: $${(hardLimitDollars - spendDollars).toFixed(2)}`,
+    );
+  }
+
+  let resetLine =
+    cycle.daysRemaining === 1
+      ? `Resets tomorrow (${cycle.resetDateStr})`
+      : cycle.daysRemaining === 0
+        ? `Resets today (${cycle.resetDateStr})`
+        : `Resets in ${cycle.daysRemaining} days (${cycle.resetDateStr})`;
+  if (dailyUsageRate > 0) {
+    resetLine += ` --> ${dailyUsageRate} requests/day avg`;
+  }
+  lines.push(resetLine);
+
+  if (evaluation.projectedDaysToExhaustion !== undefined) {
+    lines.push(
+      `⚠️ At current rate, quota exhausts in ~${evaluation.projectedDaysToExhaustion} days`,
+    );
+  }
+  if (evaluation.projectedDaysToTokenExhaustion !== undefined) {
+    lines.push(
+      `⚠️ At current rate, token quota exhausts in ~${evaluation.projectedDaysToTokenExhaustion} days`,
+    );
+  }
+  for (const warning of evaluation.warnings) {
+    lines.push(`⚠️ ${warning}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,234 @@
+/**
+ * How often the usage digest is sent.
+ */
+export type DigestFrequency = "daily" | "weekly" | "off";
+
+/**
+ * What to do with a digest whose scheduled time passed while the editor was closed.
+ * send: send it as soon as the editor opens (the same day, or the same week for weekly digests).
+ * skip: drop it unless the editor opens within CATCH_UP_GRACE_MINUTES of the scheduled time.
+ */
+export type CatchUpPolicy = "send" | "skip";
+
+/**
+ * Quiet hours as minutes since midnight. When start is after end the quiet
+ * hours span midnight, e.g. 22:00–07:00.
+ */
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * When digests are sent and when no notifications may be shown at all.
+ * Times are minutes since local midnight, days are 0 (Sunday) to 6 (Saturday).
+ */
+export interface NotificationSchedule {
+  frequency: DigestFrequency;
+  times: number[]; // sorted digest times
+  days: number[]; // days a daily digest is sent on
+  weeklyDay: number; // day a weekly digest is sent on
+  quietHours?: QuietHours;
+  catchUp: CatchUpPolicy;
+}
+
+/**
+ * A digest slot that is due: when it was scheduled, and the keys its delivery
+ * state is stored under.
+ */
+export interface DigestSlot {
+  time: Date;
+  date: string; // YYYY-MM-DD of the slot in local time
+  slot?: string; // HH:MM of the slot, only set when several digest times are configured
+}
+
+export const DEFAULT_NOTIFICATION_SCHEDULE: NotificationSchedule = {
+  frequency: "daily",
+  times: [9 * 60],
+  days: [0, 1, 2, 3, 4, 5, 6],
+  weeklyDay: 1,
+  catchUp: "send",
+};
+
+export const MAX_DIGEST_ATTEMPTS = 3;
+export const CATCH_UP_GRACE_MINUTES = 30;
+
+export const DAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Parses a 24-hour "HH:MM" time.
+ * @returns Minutes since midnight, or undefined if the time is not valid
+ */
+export function parseTime(value: string): number | undefined {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/**
+ * Formats minutes since midnight as "HH:MM".
+ */
+export function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time.
+ */
+function localDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Returns the local time `minutes` after midnight on the day `daysFromNow` days after `now`.
+ */
+function atTime(now: Date, daysFromNow: number, minutes: number): Date {
+  return new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + daysFromNow,
+    Math.floor(minutes / 60),
+    minutes % 60,
+  );
+}
+
+/**
+ * Checks whether a time falls within the quiet hours. The end is exclusive.
+ * @param time The time to check
+ * @param quietHours The quiet hours, or undefined if there are none
+ */
+export function isQuietTime(time: Date, quietHours?: QuietHours): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) {
+    return false;
+  }
+  const minutes = time.getHours() * 60 + time.getMinutes();
+  return quietHours.start < quietHours.end
+    ? minutes >= quietHours.start && minutes < quietHours.end
+    : minutes >= quietHours.start || minutes < quietHours.end;
+}
+
+/**
+ * Moves a time that falls within the quiet hours to the moment they end.
+ * @param time The time to move
+ * @param quietHours The quiet hours, or undefined if there are none
+ */
+export function deferPastQuietHours(time: Date, quietHours?: QuietHours): Date {
+  if (!quietHours || !isQuietTime(time, quietHours)) {
+    return time;
+  }
+  const minutes = time.getHours() * 60 + time.getMinutes();
+  return atTime(time, minutes < quietHours.end ? 0 : 1, quietHours.end);
+}
+
+/**
+ * Lists the digest slots scheduled on the day `daysFromNow` days after `now`.
+ */
+function slotsOnDay(
+  now: Date,
+  daysFromNow: number,
+  schedule: NotificationSchedule,
+): Date[] {
+  const weekday = atTime(now, daysFromNow, 0).getDay();
+  const sendsToday =
+    schedule.frequency === "daily"
+      ? schedule.days.includes(weekday)
+      : schedule.frequency === "weekly" && weekday === schedule.weeklyDay;
+  if (!sendsToday) {
+    return [];
+  }
+  // A weekly digest goes out once, at the first digest time of its day
+  const times =
+    schedule.frequency === "weekly"
+      ? schedule.times.slice(0, 1)
+      : schedule.times;
+  return times.map((minutes) => atTime(now, daysFromNow, minutes));
+}
+
+/**
+ * Finds the latest digest slot that is due at `now`, counting slots held back
+ * by quiet hours as due once the quiet hours end. A daily digest is only due
+ * on the day it comes due, so a missed digest is not sent the next morning;
+ * a missed weekly digest stays due for the rest of the week.
+ * @param now Current time
+ * @param schedule The notification schedule
+ * @returns The due slot, or undefined if no digest is due
+ */
+export function getDueSlot(
+  now: Date,
+  schedule: NotificationSchedule,
+): DigestSlot | undefined {
+  // Yesterday's daily slots can come due today when quiet hours deferred them past midnight
+  const lookbackDays = schedule.frequency === "weekly" ? 6 : 1;
+  for (let day = 0; day >= -lookbackDays; day--) {
+    const due = slotsOnDay(now, day, schedule).filter((slot) => {
+      const effective = deferPastQuietHours(slot, schedule.quietHours);
+      return (
+        effective <= now &&
+        (schedule.frequency === "weekly" ||
+          localDate(effective) === localDate(now))
+      );
+    });
+    if (due.length > 0) {
+      const time = due[due.length - 1];
+      return {
+        time,
+        date: localDate(time),
+        slot:
+          schedule.times.length > 1 && schedule.frequency === "daily"
+            ? formatTime(time.getHours() * 60 + time.getMinutes())
+            : undefined,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a due slot was missed for good under the catch-up policy.
+ * Lateness is measured from the end of any quiet hours the slot fell into.
+ * @param slot The due slot
+ * @param now Current time
+ * @param schedule The notification schedule
+ */
+export function isSlotExpired(
+  slot: DigestSlot,
+  now: Date,
+  schedule: NotificationSchedule,
+): boolean {
+  if (schedule.catchUp === "send") {
+    return false;
+  }
+  const effective = deferPastQuietHours(slot.time, schedule.quietHours);
+  return now.getTime() - effective.getTime() > CATCH_UP_GRACE_MINUTES * 60000;
+}
+
+/**
+ * Finds when the next digest should be sent, after any quiet hours.
+ * @param now Current time
+ * @param schedule The notification schedule
+ * @returns The time, or undefined if digests are turned off
+ */
+export function getNextDigestTime(
+  now: Date,
+  schedule: NotificationSchedule,
+): Date | undefined {
+  if (schedule.frequency === "off") {
+    return undefined;
+  }
+  for (let day = 0; day <= 7; day++) {
+    for (const slot of slotsOnDay(now, day, schedule)) {
+      const effective = deferPastQuietHours(slot, schedule.quietHours);
+      if (effective > now) {
+        return effective;
+      }
+    }
+  }
+  return undefined;
+}
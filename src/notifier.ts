@@ -0,0 +1,346 @@
+import * as path from "path";
+import * as fs from "fs";
+import { execFile } from "child_process";
+import * as logger from "./logger";
+
+/**
+ * Where notifications are shown. "auto" picks the OS backends that suit the
+ * platform; "editor" shows them in the editor only, "none" nowhere.
+ */
+export type NotifierBackendName =
+  | "auto"
+  | "nodeNotifier"
+  | "notifySend"
+  | "dbus"
+  | "osascript"
+  | "editor"
+  | "none";
+
+export const NOTIFIER_BACKEND_NAMES: NotifierBackendName[] = [
+  "auto",
+  "nodeNotifier",
+  "notifySend",
+  "dbus",
+  "osascript",
+  "editor",
+  "none",
+];
+
+/**
+ * A notification as shown by the OS.
+ */
+export interface OsNotification {
+  title: string;
+  subtitle?: string;
+  message: string;
+  timeoutMs?: number; // how long the notification stays up, where the backend supports it
+}
+
+/**
+ * Shows notifications through one OS mechanism. notify rejects when the
+ * notification could not be shown, so the next backend can be tried.
+ */
+export interface NotifierBackend {
+  readonly name: string;
+  notify(notification: OsNotification): Promise<void>;
+}
+
+/**
+ * Runs a program with an argument array (never through a shell).
+ */
+export type CommandRunner = (command: string, args: string[]) => Promise<void>;
+
+/**
+ * A backend that records notifications instead of showing them, for tests.
+ */
+export interface FakeNotifierBackend extends NotifierBackend {
+  sent: OsNotification[];
+}
+
+const COMMAND_TIMEOUT_MS = 10 * 1000;
+
+// Tried in order under "auto"; the first backend that succeeds wins
+const AUTO_BACKENDS: Partial<Record<NodeJS.Platform, NotifierBackendName[]>> = {
+  darwin: ["nodeNotifier", "osascript"],
+  linux: ["notifySend", "dbus", "nodeNotifier"],
+};
+
+/**
+ * Runs a program without a shell, failing if it exits non-zero or hangs.
+ * @param command The program to run
+ * @param args Its arguments, passed as-is
+ */
+export const runCommand: CommandRunner = (command, args) =>
+  new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS }, (error) =>
+      error ? reject(error) : resolve(),
+    );
+  });
+
+/**
+ * Checks whether notifications should be shown in the editor.
+ * @param backend The configured backend
+ */
+export function showsEditorNotifications(
+  backend: NotifierBackendName,
+): boolean {
+  return backend !== "none";
+}
+
+/**
+ * Lists the OS backends to try, in order, for the configured backend.
+ * @param backend The configured backend
+ * @param platform The platform to pick "auto" backends for
+ */
+export function getOsBackendNames(
+  backend: NotifierBackendName,
+  platform: NodeJS.Platform = process.platform,
+): NotifierBackendName[] {
+  switch (backend) {
+    case "auto":
+      return AUTO_BACKENDS[platform] ?? ["nodeNotifier"];
+    case "editor":
+    case "none":
+      return [];
+    default:
+      return [backend];
+  }
+}
+
+/**
+ * Creates the OS backends to try, in order, for the configured backend.
+ * @param backend The configured backend
+ * @param platform The platform to pick "auto" backends for
+ * @param run Runs the command line backends' programs
+ */
+export function createOsBackends(
+  backend: NotifierBackendName,
+  platform: NodeJS.Platform = process.platform,
+  run: CommandRunner = runCommand,
+): NotifierBackend[] {
+  const iconPath = findIconPath();
+  return getOsBackendNames(backend, platform).map((name) => {
+    switch (name) {
+      case "notifySend":
+        return createNotifySendBackend(run, iconPath);
+      case "dbus":
+        return createDbusBackend(run, iconPath);
+      case "osascript":
+        return createOsascriptBackend(run);
+      default:
+        return createNodeNotifierBackend(iconPath);
+    }
+  });
+}
+
+/**
+ * Shows a notification through the first backend that succeeds.
+ * @param backends Backends to try, in order
+ * @param notification The notification to show
+ * @returns The name of the backend that showed it, or undefined if all failed
+ */
+export async function sendOsNotification(
+  backends: NotifierBackend[],
+  notification: OsNotification,
+): Promise<string | undefined> {
+  for (const backend of backends) {
+    try {
+      await backend.notify(notification);
+      logger.info(`OS notification sent via ${backend.name}`);
+      return backend.name;
+    } catch (error: any) {
+      logger.warn(
+        `OS notification via ${backend.name} failed: ${error?.message ?? error}`,
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the icon shown next to OS notifications: the extension's logo, or
+ * Cursor's own icon when the logo is missing.
+ * @returns The icon path, or undefined if none was found
+ */
+function findIconPath(): string | undefined {
+  return [
+    path.join(__dirname, "../../../assets/logo.png"), // Development path
+    path.join(__dirname, "../../assets/logo.png"), // Alternative dev path
+    path.join(__dirname, "../assets/logo.png"), // Bundled path
+    path.join(__dirname, "assets/logo.png"), // Direct path
+    "/Applications/Cursor.app/Contents/Resources/cursor.png",
+    "/Applications/Cursor.app/Contents/Resources/cursor.icns",
+  ].find((iconPath) => fs.existsSync(iconPath));
+}
+
+/**
+ * Joins the title and subtitle into a single heading for backends without subtitles.
+ */
+function heading(notification: OsNotification): string {
+  return notification.subtitle
+    ? `${notification.title}: ${notification.subtitle}`
+    : notification.title;
+}
+
+/**
+ * Creates a backend using node-notifier, which wraps the native notifier of
+ * every desktop platform. On macOS, choosing "Open Cursor" brings Cursor to the front.
+ * @param iconPath Icon shown next to the notification (optional)
+ */
+export function createNodeNotifierBackend(iconPath?: string): NotifierBackend {
+  return {
+    name: "nodeNotifier",
+    notify: (notification) =>
+      new Promise((resolve, reject) => {
+        const notifier = require("node-notifier");
+        notifier.notify(
+          {
+            title: notification.title,
+            subtitle: notification.subtitle,
+            message: notification.message,
+            icon: iconPath,
+            sound: false,
+            wait: false,
+            timeout:
+              notification.timeoutMs !== undefined
+                ? Math.ceil(notification.timeoutMs / 1000) // seconds
+                : undefined,
+            actions: ["Open Cursor", "Close"],
+          },
+          (error: any, _response: unknown, metadata: any) => {
+            // A missing terminal-notifier only means node-notifier fell back to another notifier
+            if (
+              error &&
+              !(
+                error.code === "ENOENT" &&
+                error.path?.includes("terminal-notifier")
+              )
+            ) {
+              reject(error);
+              return;
+            }
+            if (
+              metadata?.activationType === "clicked" &&
+              metadata.activationValue === "Open Cursor" &&
+              process.platform === "darwin"
+            ) {
+              runCommand("open", ["-a", "Cursor"]).catch((openError) =>
+                logger.warn(`Could not open Cursor: ${openError.message}`),
+              );
+            }
+            resolve();
+          },
+        );
+      }),
+  };
+}
+
+/**
+ * Creates a backend using notify-send, the desktop notification client on most Linux desktops.
+ * @param run Runs notify-send
+ * @param iconPath Icon shown next to the notification (optional)
+ */
+export function createNotifySendBackend(
+  run: CommandRunner = runCommand,
+  iconPath?: string,
+): NotifierBackend {
+  return {
+    name: "notifySend",
+    notify: (notification) =>
+      run("notify-send", [
+        "--app-name=Cursor",
+        ...(notification.timeoutMs !== undefined
+          ? [`--expire-time=${notification.timeoutMs}`]
+          : []),
+        ...(iconPath ? [`--icon=${iconPath}`] : []),
+        "--",
+        heading(notification),
+        notification.message,
+      ]),
+  };
+}
+
+/**
+ * Quotes a string as a GVariant text literal, the format gdbus parses its arguments in.
+ */
+export function toGVariantString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, "\\n");
+  return `'${escaped}'`;
+}
+
+/**
+ * Creates a backend calling the freedesktop notification service over D-Bus
+ * with gdbus, for Linux desktops without notify-send.
+ * @param run Runs gdbus
+ * @param iconPath Icon shown next to the notification (optional)
+ */
+export function createDbusBackend(
+  run: CommandRunner = runCommand,
+  iconPath?: string,
+): NotifierBackend {
+  return {
+    name: "dbus",
+    notify: (notification) =>
+      run("gdbus", [
+        "call",
+        "--session",
+        "--dest=org.freedesktop.Notifications",
+        "--object-path=/org/freedesktop/Notifications",
+        "--method=org.freedesktop.Notifications.Notify",
+        toGVariantString("Cursor"),
+        "0",
+        toGVariantString(iconPath ?? ""),
+        toGVariantString(heading(notification)),
+        toGVariantString(notification.message),
+        "[]",
+        "{}",
+        String(notification.timeoutMs ?? -1),
+      ]),
+  };
+}
+
+/**
+ * Creates a backend using AppleScript's display notification on macOS.
+ * The texts are passed as script arguments, so they need no escaping.
+ * @param run Runs osascript
+ */
+export function createOsascriptBackend(
+  run: CommandRunner = runCommand,
+): NotifierBackend {
+  return {
+    name: "osascript",
+    notify: (notification) =>
+      run("osascript", [
+        "-e",
+        "on run argv",
+        "-e",
+        "display notification (item 2 of argv) with title (item 1 of argv) subtitle (item 3 of argv)",
+        "-e",
+        "end run",
+        notification.title,
+        notification.message,
+        notification.subtitle ?? "",
+      ]),
+  };
+}
+
+/**
+ * Creates a backend that records notifications instead of showing them, for tests.
+ * @param fail Reject every notification, to exercise fallbacks
+ */
+export function createFakeBackend(fail = false): FakeNotifierBackend {
+  const backend: FakeNotifierBackend = {
+    name: "fake",
+    sent: [],
+    notify: async (notification) => {
+      if (fail) {
+        throw new Error("Fake backend failure");
+      }
+      backend.sent.push(notification);
+    },
+  };
+  return backend;
+}
@@ -0,0 +1,90 @@
+import * as logger from "./logger";
+
+/**
+ * One refresh as handed to the refresh function. Its signal is aborted when
+ * the refresh is cancelled or a newer one supersedes it.
+ */
+export interface RefreshRun {
+  readonly sequence: number; // increases with every refresh started
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Fetches usage and shows it. Must check isCurrent(run) before each update it
+ * makes, so a superseded refresh never overwrites what a newer one showed.
+ */
+export type RefreshFunction = (run: RefreshRun) => Promise<void>;
+
+/**
+ * How a refresh is requested.
+ */
+export interface RefreshRequestOptions {
+  // Cancel a running refresh and start over, e.g. because the cookie or settings it uses changed
+  supersede?: boolean;
+}
+
+let current:
+  | { run: RefreshRun; controller: AbortController; promise: Promise<void> }
+  | undefined;
+let latestSequence = 0;
+
+/**
+ * Runs a refresh, unless one is already running: then the request joins it
+ * and gets its promise, so concurrent callers cause a single set of API calls.
+ * @param refresh The refresh to run if none is running
+ * @param options Whether to supersede a running refresh instead of joining it
+ * @returns Resolves when the refresh has finished (never rejects)
+ */
+export function requestRefresh(
+  refresh: RefreshFunction,
+  options: RefreshRequestOptions = {},
+): Promise<void> {
+  if (current) {
+    if (!options.supersede) {
+      logger.debug("Refresh already running - joining it");
+      return current.promise;
+    }
+    logger.info("Superseding the running refresh");
+    current.controller.abort();
+  }
+
+  const controller = new AbortController();
+  const run: RefreshRun = {
+    sequence: ++latestSequence,
+    signal: controller.signal,
+  };
+  const promise = refresh(run)
+    .catch((error: any) => {
+      if (isCurrent(run)) {
+        logger.error(`Refresh failed: ${error?.message}`);
+      }
+    })
+    .finally(() => {
+      if (current?.run === run) {
+        current = undefined;
+      }
+    });
+  current = { run, controller, promise };
+  return promise;
+}
+
+/**
+ * Cancels the running refresh, if any. Its API requests are aborted and it
+ * makes no further updates.
+ */
+export function cancelRefresh(): void {
+  if (current) {
+    logger.info("Cancelling the running refresh");
+    current.controller.abort();
+    current = undefined;
+  }
+}
+
+/**
+ * Checks whether a refresh may still update what is shown: it was neither
+ * cancelled nor superseded by a newer refresh.
+ * @param run The refresh to check
+ */
+export function isCurrent(run: RefreshRun): boolean {
+  return !run.signal.aborted && run.sequence === latestSequence;
+}
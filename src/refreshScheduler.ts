@@ -0,0 +1,244 @@
+import * as logger from "./logger";
+
+/**
+ * What the poll delay depends on besides the configured interval.
+ */
+export interface PollConditions {
+  focused: boolean; // some window has focus, not necessarily the polling one
+  unfocusedForMs: number; // how long every window has been in the background (0 while focused)
+  nearThreshold: boolean; // usage is about to cross an alert or warning threshold
+}
+
+/**
+ * Usage figures and the thresholds they are measured against, to decide
+ * whether polling should speed up.
+ */
+export interface ThresholdProximityInput {
+  remainingRequests: number;
+  totalRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  requestThresholds: number[]; // remaining request counts that trigger an alert or warning
+  spendThresholds: number[]; // percentages of the hard limit that trigger an alert or warning
+}
+
+/**
+ * Functions the scheduler drives. refresh must report finished refreshes back
+ * through recordRefresh, which arms the timer for the next poll.
+ */
+export interface SchedulerCallbacks {
+  refresh(): Promise<void>;
+  getPollMinutes(): number;
+  isUsageNearThreshold(): boolean;
+}
+
+export const MIN_POLL_MS = 60 * 1000;
+export const MAX_BACKOFF_MS = 2 * 60 * 60 * 1000; // backing off never waits longer than this (unless pollMinutes does)
+export const IDLE_AFTER_MS = 30 * 60 * 1000; // unfocused for this long counts as idle
+export const NEAR_THRESHOLD_PERCENT = 5; // within this many percentage points of a threshold
+const NEAR_THRESHOLD_FACTOR = 0.25;
+const UNFOCUSED_FACTOR = 2;
+const IDLE_FACTOR = 4;
+
+let callbacks: SchedulerCallbacks | undefined;
+let running = false;
+let timer: NodeJS.Timeout | undefined;
+let lastRefreshAt = 0;
+let focused = true;
+let unfocusedSince: number | undefined;
+
+/**
+ * Works out how long to wait between polls.
+ * Near a threshold polls run four times as often; in the background they
+ * back off to twice, and once idle to four times the configured interval.
+ * @param pollMinutes The configured poll interval
+ * @param conditions Window focus and threshold proximity
+ * @returns The delay in milliseconds
+ */
+export function computePollDelayMs(
+  pollMinutes: number,
+  conditions: PollConditions,
+): number {
+  const base = pollMinutes * 60 * 1000;
+  let factor = conditions.nearThreshold ? NEAR_THRESHOLD_FACTOR : 1;
+  if (!conditions.focused) {
+    factor *=
+      conditions.unfocusedForMs >= IDLE_AFTER_MS
+        ? IDLE_FACTOR
+        : UNFOCUSED_FACTOR;
+  }
+  const delay = base * factor;
+  return factor > 1
+    ? Math.max(base, Math.min(delay, MAX_BACKOFF_MS))
+    : Math.max(MIN_POLL_MS, delay);
+}
+
+/**
+ * Checks whether usage is within NEAR_THRESHOLD_PERCENT percentage points of a
+ * threshold it has not crossed yet. Request thresholds are compared as a
+ * share of the total, spend thresholds as a share of the hard limit.
+ * @param input Current usage and the thresholds to check
+ */
+export function isNearThreshold(input: ThresholdProximityInput): boolean {
+  const isNear = (used: number, thresholds: number[]) =>
+    thresholds.some(
+      (threshold) =>
+        used < threshold && threshold - used <= NEAR_THRESHOLD_PERCENT,
+    );
+
+  if (input.totalRequests > 0) {
+    const usedPercent =
+      ((input.totalRequests - input.remainingRequests) / input.totalRequests) *
+      100;
+    const thresholdPercents = [...input.requestThresholds, 0].map(
+      (remaining) =>
+        ((input.totalRequests - remaining) / input.totalRequests) * 100,
+    );
+    if (isNear(usedPercent, thresholdPercents)) {
+      return true;
+    }
+  }
+
+  if (
+    input.spendCents !== undefined &&
+    input.hardLimitDollars !== undefined &&
+    input.hardLimitDollars > 0
+  ) {
+    const spendPercent = input.spendCents / input.hardLimitDollars; // cents per dollar of limit = percent
+    return isNear(spendPercent, [...input.spendThresholds, 100]);
+  }
+  return false;
+}
+
+/**
+ * Sets up what the scheduler refreshes with. Refreshes can be requested from
+ * then on; polling only runs between startScheduler and stopScheduler.
+ * @param schedulerCallbacks The refresh function and the inputs of the poll delay
+ */
+export function initializeScheduler(
+  schedulerCallbacks: SchedulerCallbacks,
+): void {
+  callbacks = schedulerCallbacks;
+}
+
+/**
+ * Starts polling with an immediate refresh.
+ */
+export function startScheduler(): void {
+  running = true;
+  refreshNow();
+}
+
+/**
+ * Stops polling. A refresh that is still running is left to the caller to cancel.
+ */
+export function stopScheduler(): void {
+  running = false;
+  clearTimer();
+}
+
+/**
+ * Refreshes now. The next poll is scheduled once the refresh is recorded.
+ * @returns Resolves when the refresh has finished
+ */
+export function refreshNow(): Promise<void> {
+  if (!callbacks) {
+    return Promise.resolve();
+  }
+  clearTimer();
+  return callbacks.refresh();
+}
+
+/**
+ * Records a finished refresh, however it was triggered, and schedules the
+ * next poll from it.
+ * @param at When the refresh finished, in milliseconds
+ */
+export function recordRefresh(at: number = Date.now()): void {
+  lastRefreshAt = at;
+  scheduleNext();
+}
+
+/**
+ * Recomputes when the next poll is due, e.g. after pollMinutes changed.
+ */
+export function reschedule(): void {
+  scheduleNext();
+}
+
+/**
+ * Tracks whether any window has focus. Polling backs off while none has, and
+ * usage that went stale meanwhile is refreshed when one regains focus.
+ * @param isFocused Whether some window has focus now
+ * @param now Current time in milliseconds
+ */
+export function setWindowFocused(
+  isFocused: boolean,
+  now: number = Date.now(),
+): void {
+  if (isFocused === focused) {
+    return;
+  }
+  focused = isFocused;
+  unfocusedSince = isFocused ? undefined : now;
+  if (!running) {
+    return;
+  }
+
+  if (isFocused && now - lastRefreshAt >= getPollDelayMs(now)) {
+    logger.info("Window focused with stale usage - refreshing");
+    refreshNow();
+  } else {
+    reschedule();
+  }
+}
+
+/**
+ * Returns the current poll delay for this window.
+ * @param now Current time in milliseconds
+ */
+function getPollDelayMs(now: number): number {
+  if (!callbacks) {
+    return MIN_POLL_MS;
+  }
+  return computePollDelayMs(callbacks.getPollMinutes(), {
+    focused,
+    unfocusedForMs: unfocusedSince !== undefined ? now - unfocusedSince : 0,
+    nearThreshold: callbacks.isUsageNearThreshold(),
+  });
+}
+
+/**
+ * Arms the timer for the next poll, measured from the last refresh.
+ * While unfocused the delay grows as the window turns idle, so the timer is
+ * re-armed at the idle boundary to pick up the longer delay.
+ */
+function scheduleNext(): void {
+  clearTimer();
+  if (!running) {
+    return;
+  }
+
+  const now = Date.now();
+  const dueAt = lastRefreshAt + getPollDelayMs(now);
+  const idleAt =
+    unfocusedSince !== undefined ? unfocusedSince + IDLE_AFTER_MS : undefined;
+  if (idleAt !== undefined && idleAt > now && idleAt < dueAt) {
+    timer = setTimeout(scheduleNext, idleAt - now);
+    return;
+  }
+
+  const delay = Math.max(0, dueAt - now);
+  timer = setTimeout(refreshNow, delay);
+  logger.debug(`Next refresh in ${Math.round(delay / 60000)} minutes`);
+}
+
+/**
+ * Clears the poll timer, if armed.
+ */
+function clearTimer(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+}
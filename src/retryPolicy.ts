@@ -0,0 +1,88 @@
+import {
+  ApiErrorKind,
+  RateLimitedError,
+  ServerError,
+  classifyError,
+} from "./errors";
+
+/**
+ * How an API call is retried when it fails.
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts, including the first one
+  baseDelayMs: number; // delay before the first retry; doubles on each retry
+  maxDelayMs: number; // upper bound for a single delay, including Retry-After
+  jitter: number; // fraction (0-1) of each delay that is randomised
+  attemptTimeoutMs: number; // timeout per attempt
+  nonRetryable: ApiErrorKind[]; // error kinds that fail immediately
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  attemptTimeoutMs: 10000,
+  // Retrying cannot fix a bad cookie, a missing permission or an unexpected payload
+  nonRetryable: [
+    "authExpired",
+    "forbidden",
+    "malformedResponse",
+    "formatChanged",
+    "http",
+  ],
+};
+
+/**
+ * Fills in unset fields of a partial policy from the default policy.
+ * @param overrides The fields to override
+ */
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {},
+): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+/**
+ * Returns the delay the server asked for with Retry-After, if any.
+ * @param error The error the attempt failed with
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  return error instanceof RateLimitedError || error instanceof ServerError
+    ? error.retryAfterMs
+    : undefined;
+}
+
+/**
+ * Decides how long to wait before the next attempt.
+ * @param policy The retry policy
+ * @param attempt The attempt that just failed (1-based)
+ * @param error The error it failed with
+ * @param random Source of randomness for jitter (defaults to Math.random)
+ * @returns The delay in milliseconds, or undefined if the call should not be retried
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown,
+  random: () => number = Math.random,
+): number | undefined {
+  if (attempt >= policy.maxAttempts) {
+    return undefined;
+  }
+  if (policy.nonRetryable.includes(classifyError(error).kind)) {
+    return undefined;
+  }
+
+  // Honour Retry-After, unless the server wants us to wait longer than a retry is worth
+  const retryAfterMs = getRetryAfterMs(error);
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(exponential * (1 - policy.jitter * random()));
+}
@@ -0,0 +1,76 @@
+import * as crypto from "crypto";
+import type { ExtensionContext, Memento } from "vscode";
+import { classifyError } from "./errors";
+
+const COOKIE_SECRET_KEY = "cursor.cookie";
+// Hash of the cookie Cursor rejected; polling stays paused while it is still the stored cookie
+const EXPIRED_COOKIE_HASH_KEY = "expiredCookieHash";
+
+/**
+ * Creates a SHA-256 hash of the cookie for change detection
+ * @param cookie Cookie string to hash
+ * @returns SHA-256 hash as hex string
+ */
+export function hashCookie(cookie: string): string {
+  return crypto.createHash("sha256").update(cookie).digest("hex");
+}
+
+/**
+ * Checks whether a failed auth/me or usage request means the session cookie is
+ * no longer valid. These endpoints only answer 401/403 for a bad session.
+ * @param error The error the request failed with.
+ */
+export function isSessionRejected(error: unknown): boolean {
+  const kind = classifyError(error).kind;
+  return kind === "authExpired" || kind === "forbidden";
+}
+
+/**
+ * Checks whether polling is paused because Cursor already rejected this cookie.
+ * @param state Where the pause is persisted (globalState)
+ * @param cookie The stored cookie
+ */
+export function isSessionPaused(state: Memento, cookie: string): boolean {
+  return state.get<string>(EXPIRED_COOKIE_HASH_KEY) === hashCookie(cookie);
+}
+
+/**
+ * Pauses polling until a different cookie is stored. Only the cookie's hash is kept.
+ * @param state Where the pause is persisted (globalState)
+ * @param cookie The cookie Cursor rejected
+ */
+export async function pauseSession(
+  state: Memento,
+  cookie: string,
+): Promise<void> {
+  await state.update(EXPIRED_COOKIE_HASH_KEY, hashCookie(cookie));
+}
+
+/**
+ * Lifts the pause, e.g. when the user forces a refresh.
+ * @param state Where the pause is persisted (globalState)
+ */
+export async function resumeSession(state: Memento): Promise<void> {
+  await state.update(EXPIRED_COOKIE_HASH_KEY, undefined);
+}
+
+/**
+ * Stores a new cookie once it passes validation, which lifts any pause.
+ * A cookie that fails validation is never stored.
+ * @param context Extension context holding the secret storage and globalState
+ * @param cookie The cookie value entered by the user
+ * @param validate Decides whether the cookie may be saved (e.g. by checking it against auth/me)
+ * @returns True if the cookie was saved
+ */
+export async function saveCookie(
+  context: Pick<ExtensionContext, "secrets" | "globalState">,
+  cookie: string,
+  validate: (cookie: string) => Promise<boolean>,
+): Promise<boolean> {
+  if (!(await validate(cookie))) {
+    return false;
+  }
+  await context.secrets.store(COOKIE_SECRET_KEY, cookie);
+  await resumeSession(context.globalState);
+  return true;
+}
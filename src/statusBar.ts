@@ -1,15 +1,118 @@
 import * as vscode from "vscode";
+import * as config from "./configuration";
+import { evaluateUsage, UsageEvaluation } from "./thresholds";
+import { ApiErrorKind, CursorApiError, RateLimitedError } from "./errors";
+import { CircuitStatus } from "./circuitBreaker";
+import { ModelBucket, PREMIUM_MODEL, formatTokens } from "./modelUsage";
+import { formatAge, formatStatusText } from "./formatter";
+import { Forecast } from "./forecast";
+import { BillingCycle, calculateDailyUsageRate } from "./billingCycle";
+import * as logger from "./logger";
 
 let statusBarItem: vscode.StatusBarItem;
 let lastUpdateTimestamp: Date | null = null;
 
 /**
- * Interface for reset information
+ * How each class of API error is presented, and the command that helps recover from it.
  */
-interface ResetInfo {
-  resetDate: Date;
-  daysRemaining: number;
-  resetDateStr: string;
+const API_ERROR_PRESENTATION: Record<
+  ApiErrorKind,
+  {
+    icon: string;
+    text: string;
+    description: string;
+    command: string;
+    action: string;
+  }
+> = {
+  authExpired: {
+    icon: "$(key)",
+    text: "Session Expired",
+    description:
+      "Your Cursor session has expired. Usage updates are paused until a new session cookie is saved.",
+    command: "cursorUsage.insertCookie",
+    action: "Click to enter a new session cookie",
+  },
+  forbidden: {
+    icon: "$(lock)",
+    text: "No Team Access",
+    description:
+      "Cursor denied access. You may no longer be a member of the selected team.",
+    command: "cursorUsage.selectTeam",
+    action: "Click to select a different team",
+  },
+  rateLimited: {
+    icon: "$(clock)",
+    text: "Rate Limited",
+    description: "Cursor is rate limiting usage requests.",
+    command: "cursorUsage.refresh",
+    action: "Click to retry now",
+  },
+  server: {
+    icon: "$(cloud)",
+    text: "Cursor API Down",
+    description: "Cursor's servers returned an error.",
+    command: "cursorUsage.refresh",
+    action: "Click to retry",
+  },
+  network: {
+    icon: "$(debug-disconnect)",
+    text: "Offline",
+    description:
+      "Could not reach the Cursor API. Check your network connection and proxy settings.",
+    command: "cursorUsage.openSettings",
+    action: "Click to review network settings",
+  },
+  timeout: {
+    icon: "$(watch)",
+    text: "Timed Out",
+    description: "The Cursor API did not respond in time.",
+    command: "cursorUsage.refresh",
+    action: "Click to retry",
+  },
+  malformedResponse: {
+    icon: "$(question)",
+    text: "Bad Response",
+    description: "The Cursor API returned data the extension could not read.",
+    command: "cursorUsage.refresh",
+    action: "Click to retry",
+  },
+  formatChanged: {
+    icon: "$(alert)",
+    text: "API Format Changed",
+    description:
+      "Cursor changed the format of its API, so usage can't be read reliably. An extension update may be needed.",
+    command: "workbench.extensions.action.checkForUpdates",
+    action: "Click to check for extension updates",
+  },
+  http: {
+    icon: "$(error)",
+    text: "Refresh Failed",
+    description: "The Cursor API request failed.",
+    command: "cursorUsage.refresh",
+    action: "Click to refresh usage data 🔄",
+  },
+};
+
+/**
+ * Usage of the current user in an additional tracked team, shown as a tooltip section.
+ */
+export interface TeamUsageSummary {
+  teamId: number;
+  teamName: string;
+  usedRequests?: number; // the team's quota is not reported, so only usage is known
+  spendCents?: number;
+  hardLimitDollars?: number;
+  failed?: boolean; // true when the team's data could not be fetched
+}
+
+/**
+ * Marks usage as out of date: it is the last known usage, shown while refreshes fail.
+ */
+export interface StaleUsage {
+  asOf: number; // epoch milliseconds of the refresh the usage comes from
+  error?: CursorApiError; // why it could not be refreshed since
+  circuit?: CircuitStatus; // set while polling is paused
 }
 
 /**
@@ -28,98 +131,113 @@ export function createStatusBarItem() {
 
 /**
  * Updates the status bar with the remaining requests, spending info, reset info, and appropriate color/icon.
+ * Colors, icons and warnings come from the alert threshold rules so they stay consistent.
  * @param remainingRequests The number of requests left.
  * @param totalRequests The total number of requests allowed in the cycle.
  * @param spendCents The amount spent in cents (optional).
  * @param hardLimitDollars The hard limit in dollars (optional).
  * @param resetInfo Information about when the usage resets (optional).
+ * @param teamSummaries Usage in additional tracked teams (optional).
+ * @param modelBuckets Usage of every model bucket (optional).
+ * @param statusBarModel The model bucket the request counts refer to (optional, defaults to gpt-4).
+ * @param forecast Projected end-of-cycle usage (optional).
+ * @param stale Set when showing the last known usage instead of fresh usage (optional).
  */
 export function updateStatusBar(
   remainingRequests: number,
   totalRequests: number,
   spendCents?: number,
   hardLimitDollars?: number,
-  resetInfo?: ResetInfo,
+  resetInfo?: BillingCycle,
+  teamSummaries: TeamUsageSummary[] = [],
+  modelBuckets: ModelBucket[] = [],
+  statusBarModel: string = PREMIUM_MODEL,
+  forecast?: Forecast,
+  stale?: StaleUsage,
 ) {
   if (!statusBarItem) {
     return;
   }
 
-  const warningThreshold = totalRequests * 0.1; // 10%
-  let icon = "$(zap)";
-
-  // Reset background color before setting it.
-  statusBarItem.backgroundColor = undefined;
-
-  // Calculate spending status if data is available
-  let isCloseToSpendLimit = false;
-  let isOverSpendLimit = false;
-  if (spendCents !== undefined && hardLimitDollars !== undefined) {
-    const spendDollars = spendCents / 100;
-    const spendPercentage = spendDollars / hardLimitDollars;
-    isCloseToSpendLimit = spendPercentage >= 0.8; // 80% of spend limit
-    isOverSpendLimit = spendDollars >= hardLimitDollars;
-  }
-
-  // Determine warning/error states based on current display mode
-  let shouldShowError = false;
-  let shouldShowWarning = false;
-
-  if (remainingRequests > 0) {
-    // When showing requests: base colors on request status
-    const isLowOnRequests = remainingRequests <= warningThreshold;
-    shouldShowWarning = isLowOnRequests;
-    shouldShowError = false; // Never error state when requests remain
-  } else {
-    // When showing spending (0 requests): base colors on spending status
-    shouldShowError = isOverSpendLimit;
-    shouldShowWarning = isCloseToSpendLimit && !isOverSpendLimit;
-  }
-
-  // Set icon and background based on determined status
-  if (shouldShowError) {
-    icon = "$(error)";
-    statusBarItem.backgroundColor = new vscode.ThemeColor(
-      "statusBarItem.errorBackground",
-    );
-  } else if (shouldShowWarning) {
-    icon = "$(warning)";
-    statusBarItem.backgroundColor = new vscode.ThemeColor(
-      "statusBarItem.warningBackground",
-    );
-  }
-
-  // Build status text - primary display is remaining requests
-  // Only show spending when there are 0 requests left
-  let statusText: string;
+  const usedRequests = totalRequests - remainingRequests;
+  const dailyUsageRate = calculateDailyUsageRate(usedRequests, resetInfo);
+
+  // Tokens of the bucket the status bar shows
+  const tokenUsage = modelBuckets.find(
+    (bucket) => bucket.model === statusBarModel,
+  )?.usage;
+  const usedTokens = tokenUsage?.numTokens;
+  const maxTokens = tokenUsage?.maxTokenUsage ?? undefined;
+
+  const evaluation = evaluateUsage(
+    {
+      remainingRequests,
+      totalRequests,
+      spendCents,
+      hardLimitDollars,
+      dailyUsageRate,
+      daysRemaining: resetInfo?.daysRemaining,
+      usedTokens,
+      maxTokens,
+      dailyTokenRate:
+        usedTokens !== undefined
+          ? calculateDailyUsageRate(usedTokens, resetInfo)
+          : undefined,
+      projectedSpendCents: forecast?.projectedSpendCents,
+    },
+    config.getAlertThresholds(),
+  );
 
-  if (remainingRequests > 0) {
-    // Show remaining requests
-    statusText = `${icon} ${remainingRequests}`;
-  } else {
-    // No requests left - show spending instead (if available)
-    if (spendCents !== undefined && hardLimitDollars !== undefined) {
-      const spendDollars = (spendCents / 100).toFixed(2);
-      const limitDollars = hardLimitDollars.toFixed(2);
-      statusText = `${icon} $${spendDollars}/$${limitDollars}`;
-    } else {
-      // No spending data available, just show 0
-      statusText = `${icon} 0`;
-    }
-  }
+  const icon = evaluation.icon;
+  statusBarItem.backgroundColor = evaluation.backgroundColor
+    ? new vscode.ThemeColor(evaluation.backgroundColor)
+    : undefined;
+
+  // Build status text for the configured display mode. The default shows
+  // remaining requests, and spending only once there are 0 requests left
+  const statusText = formatStatusText(
+    config.getStatusBarDisplayMode(),
+    {
+      remainingRequests,
+      totalRequests,
+      spendCents,
+      hardLimitDollars,
+      daysRemaining: resetInfo?.daysRemaining,
+      dailyUsageRate,
+      usedTokens,
+      maxTokens,
+      model: statusBarModel,
+    },
+    config.getStatusBarFormat(),
+  );
 
-  statusBarItem.text = statusText;
+  // Stale usage is dimmed and marked with a history icon
+  statusBarItem.text = `${stale ? "$(history)" : icon} ${statusText}`;
+  logger.debug(
+    `Status bar shows ${stale ? "stale" : "fresh"} usage: ${statusText}`,
+  );
+  statusBarItem.color = stale
+    ? new vscode.ThemeColor("disabledForeground")
+    : undefined;
+  statusBarItem.command = "cursorUsage.refresh";
 
   // Update timestamp when status bar is successfully updated
-  lastUpdateTimestamp = new Date();
+  lastUpdateTimestamp = stale ? new Date(stale.asOf) : new Date();
 
   // Update tooltip with detailed information
   updateTooltip(
     remainingRequests,
     totalRequests,
+    evaluation,
+    dailyUsageRate,
     spendCents,
     hardLimitDollars,
     resetInfo,
+    teamSummaries,
+    modelBuckets,
+    statusBarModel,
+    forecast,
+    stale,
   );
 }
 
@@ -127,16 +245,30 @@ export function updateStatusBar(
  * Updates the tooltip with comprehensive usage, spending, and reset information.
  * @param remainingRequests The number of requests left.
  * @param totalRequests The total number of requests allowed in the cycle.
+ * @param evaluation The result of evaluating the alert threshold rules.
+ * @param dailyUsageRate Average requests per day in the current cycle.
  * @param spendCents The amount spent in cents (optional).
  * @param hardLimitDollars The hard limit in dollars (optional).
  * @param resetInfo Information about when the usage resets (optional).
+ * @param teamSummaries Usage in additional tracked teams (optional).
+ * @param modelBuckets Usage of every model bucket (optional).
+ * @param statusBarModel The model bucket the request counts refer to.
+ * @param forecast Projected end-of-cycle usage (optional).
+ * @param stale Set when showing the last known usage (optional).
  */
 function updateTooltip(
   remainingRequests: number,
   totalRequests: number,
+  evaluation: UsageEvaluation,
+  dailyUsageRate: number,
   spendCents?: number,
   hardLimitDollars?: number,
-  resetInfo?: ResetInfo,
+  resetInfo?: BillingCycle,
+  teamSummaries: TeamUsageSummary[] = [],
+  modelBuckets: ModelBucket[] = [],
+  statusBarModel: string = PREMIUM_MODEL,
+  forecast?: Forecast,
+  stale?: StaleUsage,
 ) {
   if (!statusBarItem) {
     return;
@@ -145,24 +277,6 @@ function updateTooltip(
   const usedRequests = totalRequests - remainingRequests;
   const requestPercentage = ((usedRequests / totalRequests) * 100).toFixed(1);
 
-  // Calculate cycle information once if resetInfo is available
-  let daysElapsed = 0;
-  let dailyUsageRate = 0;
-  if (resetInfo && resetInfo.daysRemaining > 0) {
-    const startOfCycle = new Date(resetInfo.resetDate);
-    startOfCycle.setMonth(startOfCycle.getMonth() - 1); // Go back one month to get start
-
-    const totalCycleDays = Math.ceil(
-      (resetInfo.resetDate.getTime() - startOfCycle.getTime()) /
-        (1000 * 3600 * 24),
-    );
-    daysElapsed = totalCycleDays - resetInfo.daysRemaining;
-
-    if (daysElapsed > 0) {
-      dailyUsageRate = parseFloat((usedRequests / daysElapsed).toFixed(1));
-    }
-  }
-
   let tooltip = "";
 
   // Add reset information at the top if available
@@ -182,10 +296,22 @@ function updateTooltip(
     tooltip = `${resetText}\n`;
 
     // Add warning about quota exhaustion if needed
-    if (remainingRequests > 0 && dailyUsageRate > 0) {
-      const estimatedDaysLeft = Math.ceil(remainingRequests / dailyUsageRate);
-      if (estimatedDaysLeft < resetInfo.daysRemaining) {
-        tooltip += `⚠️ At current rate, quota exhausts in ~${estimatedDaysLeft} days\n`;
+    if (evaluation.projectedDaysToExhaustion !== undefined) {
+      tooltip += `⚠️ At current rate, quota exhausts in ~${evaluation.projectedDaysToExhaustion} days\n`;
+    }
+    if (evaluation.projectedDaysToTokenExhaustion !== undefined) {
+      tooltip += `⚠️ At current rate, token quota exhausts in ~${evaluation.projectedDaysToTokenExhaustion} days\n`;
+    }
+
+    // Add the end-of-cycle forecast, with its 80% confidence range
+    if (forecast) {
+      tooltip += `📈 Forecast by reset: ~${forecast.projectedRequests}/${totalRequests} requests (${forecast.requestsLow}–${forecast.requestsHigh})\n`;
+      if (
+        forecast.projectedSpendCents !== undefined &&
+        forecast.spendLowCents !== undefined &&
+        forecast.spendHighCents !== undefined
+      ) {
+        tooltip += `📈 Projected spend: ~$${(forecast.projectedSpendCents / 100).toFixed(2)} ($${(forecast.spendLowCents / 100).toFixed(2)}–$${(forecast.spendHighCents / 100).toFixed(2)})\n`;
       }
     }
 
@@ -193,7 +319,21 @@ function updateTooltip(
   }
 
   // Add main request stats
-  tooltip += `Fast Premium Requests: ${remainingRequests}/${totalRequests} remaining (${requestPercentage}% used)`;
+  const requestsLabel =
+    statusBarModel === PREMIUM_MODEL
+      ? "Fast Premium Requests"
+      : `${statusBarModel} Requests`;
+  tooltip += `${requestsLabel}: ${remainingRequests}/${totalRequests} remaining (${requestPercentage}% used)`;
+
+  const tokenUsage = modelBuckets.find(
+    (bucket) => bucket.model === statusBarModel,
+  )?.usage;
+  if (tokenUsage) {
+    tooltip +=
+      tokenUsage.maxTokenUsage !== null
+        ? `\nTokens: ${formatTokens(tokenUsage.numTokens)}/${formatTokens(tokenUsage.maxTokenUsage)} used (${formatTokens(Math.max(0, tokenUsage.maxTokenUsage - tokenUsage.numTokens))} remaining)`
+        : `\nTokens: ${formatTokens(tokenUsage.numTokens)} used`;
+  }
 
   if (spendCents !== undefined && hardLimitDollars !== undefined) {
     const spendDollars = spendCents / 100;
@@ -204,27 +344,26 @@ function updateTooltip(
 
     tooltip += `\nSpending: $${spendDollars.toFixed(2)} of $${hardLimitDollars.toFixed(2)} limit (${spendPercentage}% used)`;
     tooltip += `\nRemaining budget: $${remainingDollars}`;
+  }
 
-    // Add relevant warnings based on current state
-    if (remainingRequests > 0) {
-      // When showing requests, warn about low requests
-      if (remainingRequests <= totalRequests * 0.1) {
-        tooltip += `\n⚠️ Low on requests`;
-      }
-    } else {
-      // When showing spending, warn about spending status
-      if (spendDollars >= hardLimitDollars) {
-        tooltip += `\n⚠️ Spend limit reached`;
-      } else if (spendDollars / hardLimitDollars >= 0.8) {
-        tooltip += `\n⚠️ Approaching spend limit`;
-      }
+  // Add warnings produced by the alert threshold rules
+  for (const warning of evaluation.warnings) {
+    tooltip += `\n⚠️ ${warning}`;
+  }
+
+  // Add a line per model bucket
+  if (modelBuckets.length > 0) {
+    tooltip += `\n\nModels:`;
+    for (const bucket of modelBuckets) {
+      tooltip += `\n${formatModelBucket(bucket, bucket.model === statusBarModel)}`;
     }
-  } else {
-    // No spending data available
-    if (remainingRequests <= 0) {
-      tooltip += `\n⚠️ No requests remaining`;
-    } else if (remainingRequests <= totalRequests * 0.1) {
-      tooltip += `\n⚠️ Low on requests`;
+  }
+
+  // Add a section per additional tracked team
+  if (teamSummaries.length > 0) {
+    tooltip += `\n\nOther teams:`;
+    for (const team of teamSummaries) {
+      tooltip += `\n${formatTeamSummary(team)}`;
     }
   }
 
@@ -237,34 +376,128 @@ function updateTooltip(
     tooltip += `\n\nClick to refresh 🔄`;
   }
 
+  // Say how old stale usage is and why it isn't updating
+  if (stale) {
+    let staleText = `🕒 Showing usage as of ${formatAge(Date.now() - stale.asOf)}`;
+    if (stale.error) {
+      staleText += ` (${API_ERROR_PRESENTATION[stale.error.kind].text}: ${stale.error.message})`;
+    }
+    if (stale.circuit?.resumeAt) {
+      staleText += `\nUpdates paused until ${stale.circuit.resumeAt.toLocaleTimeString()}`;
+    }
+    tooltip = `${staleText}\n\n${tooltip}`;
+  }
+
   statusBarItem.tooltip = tooltip;
 }
 
 /**
- * Sets the status bar to a generic error state.
- * @param message The message to display. If not provided, a default message is used.
+ * Formats one model bucket's usage as a single tooltip line.
+ * @param bucket The model bucket.
+ * @param shownInStatusBar Whether this bucket drives the status bar number.
+ * @returns The tooltip line.
+ */
+function formatModelBucket(
+  bucket: ModelBucket,
+  shownInStatusBar: boolean,
+): string {
+  const { usage } = bucket;
+  const requests =
+    usage.maxRequestUsage !== null
+      ? `${usage.numRequests}/${usage.maxRequestUsage} requests`
+      : `${usage.numRequests} requests`;
+  const tokens =
+    usage.maxTokenUsage !== null
+      ? `${formatTokens(usage.numTokens)}/${formatTokens(usage.maxTokenUsage)} tokens (${formatTokens(Math.max(0, usage.maxTokenUsage - usage.numTokens))} left)`
+      : `${formatTokens(usage.numTokens)} tokens`;
+  const marker = shownInStatusBar ? " (status bar)" : "";
+  return `• ${bucket.model}${marker}: ${requests} (${usage.numRequestsTotal} total), ${tokens}`;
+}
+
+/**
+ * Formats one additional team's usage as a single tooltip line.
+ * @param team The team's usage summary.
+ * @returns The tooltip line.
+ */
+function formatTeamSummary(team: TeamUsageSummary): string {
+  const label = `• ${team.teamName}:`;
+  if (team.failed) {
+    return `${label} unavailable`;
+  }
+
+  const parts: string[] = [];
+  if (team.usedRequests !== undefined) {
+    parts.push(`${team.usedRequests} requests used`);
+  }
+  if (team.spendCents !== undefined && team.hardLimitDollars !== undefined) {
+    parts.push(
+      `$${(team.spendCents / 100).toFixed(2)} of $${team.hardLimitDollars.toFixed(2)} spent`,
+    );
+  }
+  return `${label} ${parts.length > 0 ? parts.join(", ") : "no usage data"}`;
+}
+
+/**
+ * Sets the status bar to the error state matching a classified API error, with a
+ * specific message and a click action that helps recover from it.
+ * @param error The classified API error.
  */
-export function setStatusBarError(message?: string) {
+export function setStatusBarApiError(error: CursorApiError) {
   if (!statusBarItem) {
     return;
   }
-  const displayMessage = message || "Error";
-  statusBarItem.text = `$(error) ${displayMessage}`;
+  const presentation = API_ERROR_PRESENTATION[error.kind];
+
+  statusBarItem.text = `${presentation.icon} ${presentation.text}`;
+  logger.debug(`Status bar shows ${error.kind} error: ${presentation.text}`);
+  statusBarItem.color = undefined;
   statusBarItem.backgroundColor = new vscode.ThemeColor(
-    "statusBarItem.errorBackground",
+    error.kind === "rateLimited" || error.kind === "timeout"
+      ? "statusBarItem.warningBackground"
+      : "statusBarItem.errorBackground",
   );
+  statusBarItem.command = presentation.command;
 
-  // Update timestamp when error state is set
   lastUpdateTimestamp = new Date();
 
-  if (displayMessage === "Team ID?") {
-    statusBarItem.command = "cursorUsage.openSettings";
-    statusBarItem.tooltip = "Click to set your Team ID in settings";
-  } else {
-    statusBarItem.command = "cursorUsage.refresh";
-    const timeString = lastUpdateTimestamp.toLocaleString();
-    statusBarItem.tooltip = `Error occurred at: ${timeString} ; Click to refresh usage data 🔄`;
+  let tooltip = presentation.description;
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    tooltip += ` Retry after ${Math.ceil(error.retryAfterMs / 1000)}s.`;
+  }
+  tooltip += `\n\nDetails: ${error.statusCode !== undefined ? `HTTP ${error.statusCode}` : error.message}`;
+  tooltip += `\nError occurred at: ${lastUpdateTimestamp.toLocaleString()}`;
+  tooltip += `\n\n${presentation.action}`;
+  statusBarItem.tooltip = tooltip;
+}
+
+/**
+ * Sets the status bar to the paused state shown while the circuit breaker
+ * holds polling back after repeated failures.
+ * @param status The circuit breaker status.
+ */
+export function setStatusBarPaused(status: CircuitStatus) {
+  if (!statusBarItem || !status.resumeAt) {
+    return;
   }
+  statusBarItem.text = "$(debug-pause) Paused";
+  logger.debug(
+    `Status bar shows paused until ${status.resumeAt.toLocaleTimeString()}`,
+  );
+  statusBarItem.color = undefined;
+  statusBarItem.backgroundColor = new vscode.ThemeColor(
+    "statusBarItem.warningBackground",
+  );
+  statusBarItem.command = "cursorUsage.refresh";
+
+  lastUpdateTimestamp = new Date();
+
+  let tooltip = `Usage updates paused after ${status.consecutiveFailures} failed refreshes.`;
+  tooltip += `\nResuming automatically at ${status.resumeAt.toLocaleTimeString()}.`;
+  if (status.lastError) {
+    tooltip += `\n\nLast error: ${API_ERROR_PRESENTATION[status.lastError.kind].text} (${status.lastError.message})`;
+  }
+  tooltip += `\n\nClick to retry now 🔄`;
+  statusBarItem.tooltip = tooltip;
 }
 
 /**
@@ -276,6 +509,8 @@ export function setStatusBarWarning(message: string) {
     return;
   }
   statusBarItem.text = `$(warning) ${message}`;
+  logger.debug(`Status bar shows warning: ${message}`);
+  statusBarItem.color = undefined;
   statusBarItem.backgroundColor = new vscode.ThemeColor(
     "statusBarItem.warningBackground",
   );
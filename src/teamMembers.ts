@@ -0,0 +1,126 @@
+import { TeamMemberSpend } from "./models";
+import {
+  AlertThresholds,
+  isCloseToSpendLimit,
+  isLowOnRequests,
+} from "./thresholds";
+
+/**
+ * Keys the member list can be sorted by.
+ */
+export type TeamMemberSortKey = "spend" | "requests" | "name" | "role";
+
+/**
+ * The limits members are measured against, besides their own spend override.
+ */
+export interface MemberLimits {
+  maxRequests: number; // fast-premium requests included per member and cycle
+  teamHardLimitDollars?: number; // applies to members without hardLimitOverrideDollars
+}
+
+/**
+ * How close a member is to a limit, and which one.
+ */
+export interface MemberLimitStatus {
+  level: "ok" | "near" | "over";
+  message?: string; // e.g. "Approaching spend limit"; unset when ok
+}
+
+/**
+ * Returns the members matching a filter, sorted by the given key.
+ * @param members The team's members (not modified)
+ * @param sortKey How to sort them
+ * @param filterText Text the name, email or role must contain (case-insensitive; empty matches all)
+ */
+export function getVisibleMembers(
+  members: TeamMemberSpend[],
+  sortKey: TeamMemberSortKey,
+  filterText: string,
+): TeamMemberSpend[] {
+  const needle = filterText.toLowerCase();
+  const visible = members.filter(
+    (member) =>
+      !needle ||
+      [member.name, member.email, member.role].some(
+        (value) => value && value.toLowerCase().includes(needle),
+      ),
+  );
+
+  return visible.sort((a, b) => {
+    switch (sortKey) {
+      case "spend":
+        return (b.spendCents ?? 0) - (a.spendCents ?? 0);
+      case "requests":
+        return (b.fastPremiumRequests ?? 0) - (a.fastPremiumRequests ?? 0);
+      case "role":
+        return (a.role ?? "").localeCompare(b.role ?? "");
+      case "name":
+      default:
+        return getDisplayName(a).localeCompare(getDisplayName(b));
+    }
+  });
+}
+
+/**
+ * Returns the hard limit that applies to a member: their override, else the team's.
+ */
+export function getMemberHardLimit(
+  member: TeamMemberSpend,
+  limits: MemberLimits,
+): number | undefined {
+  return member.hardLimitOverrideDollars ?? limits.teamHardLimitDollars;
+}
+
+/**
+ * Classifies a member against their spend limit and the fast-premium request
+ * quota, with the same thresholds as the user's own status bar. The more
+ * severe of the two wins; spend is reported first on a tie.
+ * @param member The member's spend entry
+ * @param limits The request quota and the team's hard limit
+ * @param thresholds The configured thresholds
+ */
+export function getLimitStatus(
+  member: TeamMemberSpend,
+  limits: MemberLimits,
+  thresholds: AlertThresholds,
+): MemberLimitStatus {
+  const statuses: MemberLimitStatus[] = [];
+
+  const spendDollars = (member.spendCents ?? 0) / 100;
+  const hardLimit = getMemberHardLimit(member, limits);
+  if (hardLimit !== undefined && hardLimit > 0) {
+    if (spendDollars >= hardLimit) {
+      statuses.push({ level: "over", message: "Spend limit reached" });
+    } else if (isCloseToSpendLimit(spendDollars, hardLimit, thresholds)) {
+      statuses.push({ level: "near", message: "Approaching spend limit" });
+    }
+  }
+
+  const usedRequests = member.fastPremiumRequests ?? 0;
+  if (limits.maxRequests > 0) {
+    const remaining = limits.maxRequests - usedRequests;
+    if (remaining <= 0) {
+      statuses.push({
+        level: "over",
+        message: "Fast premium requests used up",
+      });
+    } else if (isLowOnRequests(remaining, limits.maxRequests, thresholds)) {
+      statuses.push({
+        level: "near",
+        message: "Approaching fast premium request limit",
+      });
+    }
+  }
+
+  return (
+    statuses.find((status) => status.level === "over") ??
+    statuses[0] ?? { level: "ok" }
+  );
+}
+
+/**
+ * Returns the best available display name for a member.
+ */
+export function getDisplayName(member: TeamMemberSpend): string {
+  return member.name || member.email;
+}
@@ -0,0 +1,220 @@
+import * as vscode from "vscode";
+import * as config from "./configuration";
+import { SpendData, TeamMemberSpend } from "./models";
+import {
+  MemberLimits,
+  TeamMemberSortKey,
+  getDisplayName,
+  getLimitStatus,
+  getMemberHardLimit,
+  getVisibleMembers,
+} from "./teamMembers";
+
+/**
+ * The most recent spend data fetched for the primary team.
+ */
+export interface TeamSpendSnapshot {
+  teamId: number;
+  members: TeamMemberSpend[];
+  limits: MemberLimits;
+  fetchedAt: Date;
+}
+
+const VIEW_ID = "cursorUsage.teamMembers";
+const SORT_LABELS: Record<TeamMemberSortKey, string> = {
+  spend: "Spend (highest first)",
+  requests: "Fast premium requests (highest first)",
+  name: "Name",
+  role: "Role",
+};
+
+let treeView: vscode.TreeView<TeamMemberSpend> | undefined;
+let latestTeamSpend: TeamSpendSnapshot | undefined;
+let sortKey: TeamMemberSortKey = "spend";
+let filterText = "";
+const onDidChangeTreeData = new vscode.EventEmitter<void>();
+
+const treeDataProvider: vscode.TreeDataProvider<TeamMemberSpend> = {
+  onDidChangeTreeData: onDidChangeTreeData.event,
+  getTreeItem: createTreeItem,
+  getChildren: (element) =>
+    element || !latestTeamSpend
+      ? []
+      : getVisibleMembers(latestTeamSpend.members, sortKey, filterText),
+};
+
+/**
+ * Creates the team members tree view and registers its sort and filter commands.
+ * @returns Disposables to add to the extension's subscriptions.
+ */
+export function createTeamMembersView(): vscode.Disposable[] {
+  treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider });
+  updateViewDescription();
+
+  return [
+    treeView,
+    onDidChangeTreeData,
+    vscode.commands.registerCommand("cursorUsage.sortTeamMembers", sortMembers),
+    vscode.commands.registerCommand(
+      "cursorUsage.filterTeamMembers",
+      filterMembers,
+    ),
+    vscode.commands.registerCommand("cursorUsage.clearTeamMembersFilter", () =>
+      setFilter(""),
+    ),
+  ];
+}
+
+/**
+ * Replaces the members shown in the view with freshly fetched spend data.
+ * @param teamId The team the data belongs to.
+ * @param spendData The spend data returned by get-team-spend.
+ * @param limits The request quota and team hard limit members are highlighted against.
+ */
+export function setTeamSpend(
+  teamId: number,
+  spendData: SpendData,
+  limits: MemberLimits,
+): void {
+  latestTeamSpend = {
+    teamId,
+    members: spendData.teamMemberSpend || [],
+    limits,
+    fetchedAt: new Date(),
+  };
+  updateViewDescription();
+  onDidChangeTreeData.fire();
+}
+
+/**
+ * Returns the most recent spend data fetched for the primary team, if any.
+ */
+export function getTeamSpend(): TeamSpendSnapshot | undefined {
+  return latestTeamSpend;
+}
+
+/**
+ * Builds the tree item for a member, highlighting members near or over their limit.
+ * @param member The member's spend entry.
+ */
+function createTreeItem(member: TeamMemberSpend): vscode.TreeItem {
+  const item = new vscode.TreeItem(getDisplayName(member));
+  const spendDollars = (member.spendCents ?? 0) / 100;
+  const limits = latestTeamSpend?.limits ?? { maxRequests: 0 };
+  const limit = getMemberHardLimit(member, limits);
+
+  const descriptionParts = [
+    limits.maxRequests > 0
+      ? `${member.fastPremiumRequests ?? 0}/${limits.maxRequests} requests`
+      : `${member.fastPremiumRequests ?? 0} requests`,
+  ];
+  descriptionParts.push(
+    limit !== undefined
+      ? `$${spendDollars.toFixed(2)} / $${limit.toFixed(2)}`
+      : `$${spendDollars.toFixed(2)}`,
+  );
+  item.description = descriptionParts.join(" · ");
+
+  const status = getLimitStatus(member, limits, config.getAlertThresholds());
+  item.iconPath =
+    status.level === "over"
+      ? new vscode.ThemeIcon("error", new vscode.ThemeColor("errorForeground"))
+      : status.level === "near"
+        ? new vscode.ThemeIcon(
+            "warning",
+            new vscode.ThemeColor("editorWarning.foreground"),
+          )
+        : new vscode.ThemeIcon("person");
+
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(`**${escapeMarkdown(getDisplayName(member))}**\n\n`);
+  tooltip.appendMarkdown(`- Email: ${escapeMarkdown(member.email)}\n`);
+  tooltip.appendMarkdown(
+    `- Role: ${escapeMarkdown(member.role ?? "unknown")}\n`,
+  );
+  tooltip.appendMarkdown(
+    `- Fast premium requests: ${member.fastPremiumRequests ?? 0}\n`,
+  );
+  tooltip.appendMarkdown(`- Spend: $${spendDollars.toFixed(2)}\n`);
+  tooltip.appendMarkdown(
+    `- Hard limit: ${limit === undefined ? "none" : `$${limit.toFixed(2)}${member.hardLimitOverrideDollars === undefined ? " (team default)" : ""}`}\n`,
+  );
+  if (status.message) {
+    tooltip.appendMarkdown(`\n⚠️ ${status.message}`);
+  }
+  item.tooltip = tooltip;
+
+  return item;
+}
+
+/**
+ * Lets the user choose the sort order of the member list.
+ */
+async function sortMembers(): Promise<void> {
+  const picked = await vscode.window.showQuickPick(
+    (Object.keys(SORT_LABELS) as TeamMemberSortKey[]).map((key) => ({
+      label: SORT_LABELS[key],
+      description: key === sortKey ? "current" : undefined,
+      key,
+    })),
+    { placeHolder: "Sort team members by" },
+  );
+  if (picked) {
+    sortKey = picked.key;
+    updateViewDescription();
+    onDidChangeTreeData.fire();
+  }
+}
+
+/**
+ * Prompts for text to filter the member list by name, email or role.
+ */
+async function filterMembers(): Promise<void> {
+  const text = await vscode.window.showInputBox({
+    prompt: "Filter team members by name, email or role",
+    placeHolder: "Leave empty to show all members",
+    value: filterText,
+  });
+  if (text !== undefined) {
+    setFilter(text.trim());
+  }
+}
+
+/**
+ * Applies a filter to the member list.
+ * @param text The filter text (empty to show all members).
+ */
+function setFilter(text: string): void {
+  filterText = text;
+  vscode.commands.executeCommand(
+    "setContext",
+    "cursorUsage.teamMembersFiltered",
+    filterText !== "",
+  );
+  updateViewDescription();
+  onDidChangeTreeData.fire();
+}
+
+/**
+ * Shows the active sort order, filter and data age next to the view title.
+ */
+function updateViewDescription(): void {
+  if (!treeView) {
+    return;
+  }
+  const parts = [`by ${sortKey}`];
+  if (filterText) {
+    parts.push(`filter: "${filterText}"`);
+  }
+  if (latestTeamSpend) {
+    parts.push(`as of ${latestTeamSpend.fetchedAt.toLocaleTimeString()}`);
+  }
+  treeView.description = parts.join(" · ");
+}
+
+/**
+ * Escapes characters with special meaning in markdown.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, "\\$&");
+}
@@ -0,0 +1,117 @@
+import { Team } from "./models";
+
+const CURRENT_MARKER = "Currently selected";
+
+/**
+ * An entry of the Select Team quick pick.
+ */
+export interface TeamPickItem {
+  label: string;
+  description?: string;
+  detail?: string;
+  action: "auto" | "team" | "additional";
+  teamId?: number;
+}
+
+/**
+ * An entry of the multi-select quick pick of additional teams.
+ */
+export interface AdditionalTeamPickItem {
+  label: string;
+  description: string;
+  picked: boolean;
+  teamId: number;
+}
+
+/**
+ * What the user chose in the Select Team quick pick.
+ */
+export type TeamSelection =
+  | { kind: "primary"; teamId: string; name: string } // teamId "" means auto-detect
+  | { kind: "additional" }; // open the picker for additional teams
+
+/** The entry that opens the picker for additional teams, shown after a separator. */
+export const ADDITIONAL_TEAMS_ITEM: TeamPickItem = {
+  label: "$(list-selection) Track additional teams...",
+  description: "Show several teams in the tooltip",
+  action: "additional",
+};
+
+/**
+ * Builds the Select Team entries: auto-detection, then one per team. The
+ * current choice is marked in its detail, since a single-select quick pick
+ * ignores `picked`.
+ * @param teams The teams the user belongs to
+ * @param currentTeamId The `cursorUsage.teamId` setting (empty or undefined for auto-detect)
+ */
+export function getTeamPickItems(
+  teams: Team[],
+  currentTeamId: string | undefined,
+): TeamPickItem[] {
+  const isAuto = !currentTeamId || currentTeamId.toLowerCase() === "auto";
+  return [
+    {
+      label: "$(sync) Auto-detect",
+      description: "Use the first team found",
+      detail: isAuto ? CURRENT_MARKER : undefined,
+      action: "auto",
+    },
+    ...teams.map(
+      (team): TeamPickItem => ({
+        label: team.name,
+        description: `ID ${team.id}`,
+        detail: String(team.id) === currentTeamId ? CURRENT_MARKER : undefined,
+        action: "team",
+        teamId: team.id,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Turns the picked Select Team entry into the selection to apply.
+ * @param item The picked entry
+ */
+export function resolveTeamPick(item: TeamPickItem): TeamSelection {
+  if (item.action === "additional") {
+    return { kind: "additional" };
+  }
+  if (item.action === "auto" || item.teamId === undefined) {
+    return { kind: "primary", teamId: "", name: "auto" };
+  }
+  return { kind: "primary", teamId: String(item.teamId), name: item.label };
+}
+
+/**
+ * Builds the entries of the additional teams picker, with the tracked teams picked.
+ * @param teams The teams the user belongs to
+ * @param trackedIds The `cursorUsage.additionalTeamIds` setting
+ */
+export function getAdditionalTeamPickItems(
+  teams: Team[],
+  trackedIds: number[],
+): AdditionalTeamPickItem[] {
+  return teams.map((team) => ({
+    label: team.name,
+    description: `ID ${team.id}`,
+    picked: trackedIds.includes(team.id),
+    teamId: team.id,
+  }));
+}
+
+/**
+ * Turns the picked additional teams into the setting value and a confirmation.
+ * @param items The picked entries (empty to track no additional teams)
+ */
+export function resolveAdditionalTeamPick(items: AdditionalTeamPickItem[]): {
+  teamIds: number[];
+  message: string;
+} {
+  return {
+    teamIds: items.map((item) => item.teamId),
+    message:
+      items.length > 0
+        ? `Tracking additional teams: ${items.map((item) => item.label).join(", ")}`
+        : "No additional teams tracked.",
+  };
+}
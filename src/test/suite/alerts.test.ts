@@ -0,0 +1,194 @@
+import * as assert from "assert";
+import { AlertSettings, CrossingInput, detectCrossings } from "../../alerts";
+
+suite("Threshold Crossing Alerts", function () {
+  const settings: AlertSettings = {
+    enabled: true,
+    remainingRequests: [50],
+    spendPercentages: [50, 80, 100],
+    tokenPercentages: [80, 100],
+    budgetForecast: true,
+  };
+
+  const input = (overrides: Partial<CrossingInput>): CrossingInput => ({
+    remainingRequests: 300,
+    totalRequests: 500,
+    startOfMonth: "2025-09-24",
+    ...overrides,
+  });
+
+  test("No alerts while no threshold is crossed", () => {
+    const { alerts } = detectCrossings(input({}), settings, undefined);
+
+    assert.deepStrictEqual(alerts, []);
+  });
+
+  test("Alerts once when remaining requests drop below N", () => {
+    const first = detectCrossings(
+      input({ remainingRequests: 42 }),
+      settings,
+      undefined,
+    );
+    const second = detectCrossings(
+      input({ remainingRequests: 30 }),
+      settings,
+      first.state,
+    );
+
+    assert.deepStrictEqual(
+      first.alerts.map((a) => a.id),
+      ["remaining:50"],
+    );
+    assert.deepStrictEqual(second.alerts, []);
+  });
+
+  test("Reports only the highest spend percentage crossed at once", () => {
+    const { alerts, state } = detectCrossings(
+      input({ remainingRequests: 0, spendCents: 8500, hardLimitDollars: 100 }),
+      settings,
+      { fired: { "2025-09-24|": ["exhausted", "remaining:50"] } },
+    );
+
+    assert.deepStrictEqual(
+      alerts.map((a) => a.id),
+      ["spend:80"],
+    );
+    assert.ok(state.fired["2025-09-24|"].includes("spend:50"));
+  });
+
+  test("Alerts when requests hit zero and usage-based billing begins", () => {
+    const { alerts } = detectCrossings(
+      input({ remainingRequests: 0 }),
+      settings,
+      { fired: { "2025-09-24|": ["remaining:50"] } },
+    );
+
+    assert.deepStrictEqual(
+      alerts.map((a) => a.id),
+      ["exhausted"],
+    );
+  });
+
+  test("Resets de-duplication on a new billing cycle", () => {
+    const { alerts } = detectCrossings(
+      input({ remainingRequests: 42, startOfMonth: "2025-10-24" }),
+      settings,
+      { fired: { "2025-09-24|": ["remaining:50"] } },
+    );
+
+    assert.deepStrictEqual(
+      alerts.map((a) => a.id),
+      ["remaining:50"],
+    );
+  });
+
+  test("Keeps what was notified for each team when switching teams", () => {
+    const teamA = detectCrossings(
+      input({ remainingRequests: 42, teamId: 1 }),
+      settings,
+      undefined,
+    );
+    const teamB = detectCrossings(
+      input({ remainingRequests: 300, teamId: 2 }),
+      settings,
+      teamA.state,
+    );
+    const backToTeamA = detectCrossings(
+      input({ remainingRequests: 40, teamId: 1 }),
+      settings,
+      teamB.state,
+    );
+
+    assert.deepStrictEqual(
+      teamA.alerts.map((a) => a.id),
+      ["remaining:50"],
+    );
+    assert.deepStrictEqual(backToTeamA.alerts, []);
+  });
+
+  test("Drops what was notified in earlier billing cycles", () => {
+    const { state } = detectCrossings(
+      input({ startOfMonth: "2025-10-24", teamId: 1 }),
+      settings,
+      {
+        fired: {
+          "2025-09-24|1": ["remaining:50"],
+          "2025-09-24|2": ["spend:50"],
+          "2025-10-24|2": ["spend:80"],
+        },
+      },
+    );
+
+    assert.deepStrictEqual(state.fired, {
+      "2025-10-24|2": ["spend:80"],
+      "2025-10-24|1": [],
+    });
+  });
+
+  test("Alerts on the highest token percentage crossed", () => {
+    const first = detectCrossings(
+      input({ usedTokens: 850_000, maxTokens: 1_000_000 }),
+      settings,
+      undefined,
+    );
+    const second = detectCrossings(
+      input({ usedTokens: 1_000_000, maxTokens: 1_000_000 }),
+      settings,
+      first.state,
+    );
+
+    assert.deepStrictEqual(
+      first.alerts.map((a) => a.id),
+      ["tokens:80"],
+    );
+    assert.deepStrictEqual(
+      second.alerts.map((a) => a.id),
+      ["tokens:100"],
+    );
+  });
+
+  test("Ignores tokens when the model has no token limit", () => {
+    const { alerts } = detectCrossings(
+      input({ usedTokens: 5_000_000 }),
+      settings,
+      undefined,
+    );
+
+    assert.deepStrictEqual(alerts, []);
+  });
+
+  test("Alerts once when the forecast exceeds the budget", () => {
+    const first = detectCrossings(
+      input({ spendCents: 0, hardLimitDollars: 20, projectedSpendCents: 2600 }),
+      settings,
+      undefined,
+    );
+    const second = detectCrossings(
+      input({ spendCents: 0, hardLimitDollars: 20, projectedSpendCents: 2800 }),
+      settings,
+      first.state,
+    );
+    const disabled = detectCrossings(
+      input({ spendCents: 0, hardLimitDollars: 20, projectedSpendCents: 2600 }),
+      { ...settings, budgetForecast: false },
+      undefined,
+    );
+
+    assert.deepStrictEqual(
+      first.alerts.map((a) => a.id),
+      ["forecast:overBudget"],
+    );
+    assert.deepStrictEqual(second.alerts, []);
+    assert.deepStrictEqual(disabled.alerts, []);
+  });
+
+  test("Sends nothing when alerts are disabled", () => {
+    const { alerts } = detectCrossings(
+      input({ remainingRequests: 0 }),
+      { ...settings, enabled: false },
+      undefined,
+    );
+
+    assert.deepStrictEqual(alerts, []);
+  });
+});
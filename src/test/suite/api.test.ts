@@ -0,0 +1,162 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { after, before } from "mocha";
+import * as api from "../../api";
+import { createNodeTransport, shouldBypassProxy } from "../../transport";
+import {
+  AuthExpiredError,
+  MalformedResponseError,
+  RateLimitedError,
+  RequestCancelledError,
+  TimeoutError,
+} from "../../errors";
+
+suite("API Transport", function () {
+  let server: http.Server;
+  let lastRequest: { url?: string; cookie?: string; body: string } = {
+    body: "",
+  };
+  // Stalled requests the server is holding open, and the most at once
+  let openStalled = 0;
+  let maxOpenStalled = 0;
+
+  before(async () => {
+    // Local stand-in for the Cursor API
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        lastRequest = { url: req.url, cookie: req.headers.cookie, body };
+        if (req.headers.cookie === "WorkosCursorSessionToken=expired") {
+          res.writeHead(401);
+          res.end("unauthorized");
+        } else if (req.headers.cookie === "WorkosCursorSessionToken=busy") {
+          res.writeHead(429, { "Retry-After": "30" });
+          res.end("slow down");
+        } else if (req.headers.cookie === "WorkosCursorSessionToken=stalled") {
+          // Never answers; the client has to give up
+          openStalled++;
+          maxOpenStalled = Math.max(maxOpenStalled, openStalled);
+          res.on("close", () => openStalled--);
+        } else if (req.headers.cookie === "WorkosCursorSessionToken=garbled") {
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end("<html>maintenance</html>");
+        } else if (req.url === "/api/auth/me") {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ email: "ada@example.com", sub: "user_1" }));
+        } else if (req.url === "/api/dashboard/teams") {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ teams: [{ id: 7, name: "Analytical" }] }));
+        } else {
+          res.writeHead(404);
+          res.end("not found");
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    api.configureApi({
+      baseUrl: `http://127.0.0.1:${port}/api/`,
+      transport: createNodeTransport(),
+    });
+  });
+
+  after(async () => {
+    api.configureApi({
+      baseUrl: api.DEFAULT_BASE_URL,
+      transport: createNodeTransport(),
+    });
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("Sends GET requests to the configured base URL with the cookie", async () => {
+    const me = await api.fetchUserMe("secret-cookie");
+
+    assert.strictEqual(me.email, "ada@example.com");
+    assert.strictEqual(lastRequest.url, "/api/auth/me");
+    assert.strictEqual(
+      lastRequest.cookie,
+      "WorkosCursorSessionToken=secret-cookie",
+    );
+  });
+
+  test("Sends POST bodies as JSON", async () => {
+    const teams = await api.fetchTeams("secret-cookie");
+
+    assert.strictEqual(teams.teams[0].name, "Analytical");
+    assert.strictEqual(lastRequest.body, "{}");
+  });
+
+  test("Rejects non-2xx responses", async () => {
+    await assert.rejects(api.fetchTeamDetails(7, "secret-cookie"), /HTTP 404/);
+  });
+
+  test("Classifies 401 responses as an expired session", async () => {
+    await assert.rejects(api.fetchUserMe("expired"), AuthExpiredError);
+  });
+
+  test("Reads Retry-After from 429 responses", async () => {
+    await assert.rejects(api.fetchTeams("busy"), (error: unknown) => {
+      assert.ok(error instanceof RateLimitedError);
+      assert.strictEqual(error.retryAfterMs, 30000);
+      return true;
+    });
+  });
+
+  test("Classifies unparseable bodies as malformed responses", async () => {
+    await assert.rejects(api.fetchUserMe("garbled"), MalformedResponseError);
+  });
+
+  test("Cancels a request when its signal is aborted", async () => {
+    const controller = new AbortController();
+    const request = api.fetchUserUsage(
+      "user_1",
+      "stalled",
+      {},
+      controller.signal,
+    );
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(request, RequestCancelledError);
+  });
+
+  test("Aborts a timed-out attempt before retrying", async () => {
+    maxOpenStalled = 0;
+
+    await assert.rejects(
+      api.fetchUserUsage("user_1", "stalled", {
+        maxAttempts: 2,
+        attemptTimeoutMs: 50,
+        baseDelayMs: 50,
+        jitter: 0,
+      }),
+      TimeoutError,
+    );
+
+    assert.strictEqual(maxOpenStalled, 1);
+  });
+
+  test("Does not send a request that was already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(
+      api.fetchTeams("secret-cookie", controller.signal),
+      RequestCancelledError,
+    );
+  });
+
+  test("Matches NO_PROXY entries against hosts and subdomains", () => {
+    assert.strictEqual(shouldBypassProxy("cursor.com", "cursor.com"), true);
+    assert.strictEqual(
+      shouldBypassProxy("api.cursor.com", ".cursor.com"),
+      true,
+    );
+    assert.strictEqual(shouldBypassProxy("cursor.com", "localhost"), false);
+    assert.strictEqual(shouldBypassProxy("cursor.com", "*"), true);
+    assert.strictEqual(shouldBypassProxy("cursor.com", undefined), false);
+  });
+});
@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import {
+  addMonthsClamped,
+  formatCycleDate,
+  getBillingCycle,
+  getCycleLabelTimeZone,
+  isValidTimeZone,
+} from "../../billingCycle";
+
+suite("Billing Cycle", function () {
+  test("Clamps the reset to the end of shorter months", () => {
+    assert.strictEqual(
+      addMonthsClamped(new Date("2025-01-31T10:00:00Z"), 1).toISOString(),
+      "2025-02-28T10:00:00.000Z",
+    );
+    assert.strictEqual(
+      addMonthsClamped(new Date("2024-01-31T10:00:00Z"), 1).toISOString(),
+      "2024-02-29T10:00:00.000Z",
+    );
+    assert.strictEqual(
+      addMonthsClamped(new Date("2025-12-15T00:00:00Z"), 1).toISOString(),
+      "2026-01-15T00:00:00.000Z",
+    );
+  });
+
+  test("Counts total, elapsed and remaining days", () => {
+    const cycle = getBillingCycle(
+      "2025-01-31T12:00:00Z",
+      new Date("2025-02-10T12:00:00Z"),
+      "UTC",
+    );
+
+    assert.strictEqual(cycle.end.toISOString(), "2025-02-28T12:00:00.000Z");
+    assert.strictEqual(cycle.totalDays, 28);
+    assert.strictEqual(cycle.daysRemaining, 18);
+    assert.strictEqual(cycle.elapsedDays, 10);
+    assert.strictEqual(cycle.resetDateStr, "2025-02-28");
+  });
+
+  test("Reports the reset as today on the reset day", () => {
+    const cycle = getBillingCycle(
+      "2025-03-15T22:00:00Z",
+      new Date("2025-04-15T01:00:00Z"),
+      "UTC",
+    );
+
+    assert.strictEqual(cycle.daysRemaining, 0);
+  });
+
+  test("Counts days in the user's timezone", () => {
+    const now = new Date("2025-03-20T12:00:00Z");
+    const utc = getBillingCycle("2025-03-01T02:00:00Z", now, "UTC");
+    const losAngeles = getBillingCycle(
+      "2025-03-01T02:00:00Z",
+      now,
+      "America/Los_Angeles",
+    );
+
+    assert.strictEqual(utc.resetDateStr, "2025-04-01");
+    assert.strictEqual(losAngeles.resetDateStr, "2025-03-31");
+    assert.strictEqual(losAngeles.daysRemaining, utc.daysRemaining - 1);
+  });
+
+  test("Is not thrown off by a DST change", () => {
+    // US clocks spring forward on March 9th, 2025
+    const cycle = getBillingCycle(
+      "2025-03-01T05:00:00Z",
+      new Date("2025-03-31T05:00:00Z"),
+      "America/New_York",
+    );
+
+    assert.strictEqual(cycle.totalDays, 31);
+    assert.strictEqual(cycle.daysRemaining, 1);
+  });
+
+  test("Labels a date-only cycle start with its own calendar day", () => {
+    const label = (startOfMonth: string) =>
+      formatCycleDate(
+        new Date(startOfMonth),
+        getCycleLabelTimeZone(startOfMonth, "America/Los_Angeles"),
+      );
+
+    assert.strictEqual(label("2025-03-01"), "2025-03-01");
+    assert.strictEqual(label("2025-03-01T02:00:00Z"), "2025-02-28");
+  });
+
+  test("Validates timezone names", () => {
+    assert.strictEqual(isValidTimeZone("Europe/Berlin"), true);
+    assert.strictEqual(isValidTimeZone("Mars/Olympus"), false);
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import { after, beforeEach } from "mocha";
+import * as circuitBreaker from "../../circuitBreaker";
+import { AuthExpiredError, NetworkError, RateLimitedError } from "../../errors";
+
+suite("Circuit Breaker", function () {
+  const start = Date.UTC(2025, 0, 1, 12, 0, 0);
+  const minute = 60 * 1000;
+  const offline = new NetworkError("getaddrinfo ENOTFOUND", "ENOTFOUND");
+
+  beforeEach(() => {
+    circuitBreaker.configureCircuitBreaker({
+      failureThreshold: 3,
+      cooldownMs: 5 * minute,
+      maxCooldownMs: 15 * minute,
+    });
+  });
+
+  after(() => {
+    circuitBreaker.configureCircuitBreaker();
+  });
+
+  test("Opens after consecutive failures", () => {
+    assert.strictEqual(circuitBreaker.recordFailure(offline, start), false);
+    assert.strictEqual(circuitBreaker.recordFailure(offline, start), false);
+    assert.strictEqual(circuitBreaker.recordFailure(offline, start), true);
+
+    assert.strictEqual(circuitBreaker.canRequest(start + minute), false);
+    assert.strictEqual(
+      circuitBreaker.getCircuitStatus().resumeAt?.getTime(),
+      start + 5 * minute,
+    );
+  });
+
+  test("Lets a probe through after the cooldown and closes on success", () => {
+    for (let i = 0; i < 3; i++) {
+      circuitBreaker.recordFailure(offline, start);
+    }
+
+    assert.strictEqual(circuitBreaker.canRequest(start + 5 * minute), true);
+    assert.strictEqual(circuitBreaker.getCircuitStatus().state, "halfOpen");
+
+    circuitBreaker.recordSuccess();
+    assert.strictEqual(circuitBreaker.getCircuitStatus().state, "closed");
+    assert.strictEqual(
+      circuitBreaker.getCircuitStatus().consecutiveFailures,
+      0,
+    );
+  });
+
+  test("Doubles the cooldown when a probe fails", () => {
+    for (let i = 0; i < 3; i++) {
+      circuitBreaker.recordFailure(offline, start);
+    }
+    const probeTime = start + 5 * minute;
+    circuitBreaker.canRequest(probeTime);
+
+    assert.strictEqual(circuitBreaker.recordFailure(offline, probeTime), true);
+    assert.strictEqual(
+      circuitBreaker.getCircuitStatus().resumeAt?.getTime(),
+      probeTime + 10 * minute,
+    );
+  });
+
+  test("Waits at least as long as Retry-After", () => {
+    const rateLimited = new RateLimitedError("HTTP 429", 30 * minute);
+    for (let i = 0; i < 3; i++) {
+      circuitBreaker.recordFailure(rateLimited, start);
+    }
+
+    assert.strictEqual(
+      circuitBreaker.getCircuitStatus().resumeAt?.getTime(),
+      start + 30 * minute,
+    );
+  });
+
+  test("Ignores session errors", () => {
+    for (let i = 0; i < 5; i++) {
+      circuitBreaker.recordFailure(new AuthExpiredError("HTTP 401"), start);
+    }
+
+    assert.strictEqual(circuitBreaker.canRequest(start), true);
+    assert.strictEqual(
+      circuitBreaker.getCircuitStatus().consecutiveFailures,
+      0,
+    );
+  });
+});
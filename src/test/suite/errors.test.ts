@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import {
+  AuthExpiredError,
+  ForbiddenError,
+  HttpError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  classifyError,
+  errorFromResponse,
+  parseRetryAfter,
+} from "../../errors";
+
+suite("API Errors", function () {
+  test("Maps HTTP status codes to error classes", () => {
+    assert.ok(errorFromResponse(401, "") instanceof AuthExpiredError);
+    assert.ok(errorFromResponse(403, "") instanceof ForbiddenError);
+    assert.ok(errorFromResponse(503, "") instanceof ServerError);
+    assert.ok(errorFromResponse(404, "") instanceof HttpError);
+    assert.strictEqual(errorFromResponse(502, "").kind, "server");
+  });
+
+  test("Parses Retry-After seconds and dates", () => {
+    const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+    assert.strictEqual(parseRetryAfter("120", now), 120000);
+    assert.strictEqual(
+      parseRetryAfter("Wed, 01 Jan 2025 12:01:00 GMT", now),
+      60000,
+    );
+    assert.strictEqual(parseRetryAfter("soon", now), undefined);
+    assert.strictEqual(parseRetryAfter(undefined, now), undefined);
+  });
+
+  test("Classifies Node.js socket errors", () => {
+    const refused = Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    });
+    const timedOut = new Error("Request to x timed out after 10ms");
+
+    assert.ok(classifyError(refused) instanceof NetworkError);
+    assert.strictEqual(
+      (classifyError(refused) as NetworkError).code,
+      "ECONNREFUSED",
+    );
+    assert.ok(classifyError(timedOut) instanceof TimeoutError);
+  });
+
+  test("Leaves classified errors unchanged", () => {
+    const error = new AuthExpiredError("HTTP 401");
+
+    assert.strictEqual(classifyError(error), error);
+    assert.strictEqual(classifyError("boom").kind, "http");
+  });
+});
@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import { buildUsageExport, toCsv, EXPORT_SCHEMA_VERSION } from "../../export";
+import { UsageSnapshot } from "../../history";
+
+suite("Usage Export", function () {
+  const snapshots: UsageSnapshot[] = [
+    {
+      timestamp: Date.parse("2025-09-25T09:00:00Z"),
+      usedRequests: 100,
+      maxRequests: 500,
+      spendCents: 0,
+      hardLimitDollars: 50,
+      startOfMonth: "2025-09-24",
+      teamId: 7,
+    },
+    {
+      timestamp: Date.parse("2025-09-26T09:00:00Z"),
+      usedRequests: 150,
+      maxRequests: 500,
+      spendCents: 120,
+      hardLimitDollars: 50,
+      startOfMonth: "2025-09-24",
+      teamId: 7,
+    },
+  ];
+
+  const teamSpend = {
+    teamId: 7,
+    limits: { maxRequests: 500 },
+    fetchedAt: new Date("2025-09-26T09:00:00Z"),
+    members: [
+      {
+        email: "ada@example.com",
+        name: "Lovelace, Ada",
+        role: "member",
+        userId: 1,
+        fastPremiumRequests: 150,
+        spendCents: 120,
+      },
+    ],
+  };
+
+  test("Filters samples by range and always includes the current snapshot", () => {
+    const data = buildUsageExport(snapshots, teamSpend, {
+      from: new Date("2025-09-26T00:00:00Z"),
+      to: new Date("2025-09-27T00:00:00Z"),
+    });
+
+    assert.strictEqual(data.schemaVersion, EXPORT_SCHEMA_VERSION);
+    assert.strictEqual(data.samples.length, 1);
+    assert.strictEqual(data.current?.usedRequests, 150);
+    assert.strictEqual(data.current?.remainingRequests, 350);
+    assert.strictEqual(data.teamMemberSpend?.members[0].spendCents, 120);
+    assert.strictEqual(
+      data.teamMemberSpend?.members[0].hardLimitOverrideDollars,
+      null,
+    );
+  });
+
+  test("Writes one CSV row per record with a fixed header", () => {
+    const data = buildUsageExport(snapshots, teamSpend, {
+      to: new Date("2025-09-27T00:00:00Z"),
+    });
+    const lines = toCsv(data).trimEnd().split("\n");
+
+    assert.ok(lines[0].startsWith("record_type,timestamp,team_id"));
+    assert.deepStrictEqual(
+      lines.slice(1).map((line) => line.split(",")[0]),
+      ["current", "sample", "sample", "team_member"],
+    );
+    assert.ok(lines[4].includes('"Lovelace, Ada"'));
+  });
+
+  test("Handles an empty history", () => {
+    const data = buildUsageExport([], undefined, { to: new Date() });
+
+    assert.strictEqual(data.current, null);
+    assert.strictEqual(data.teamMemberSpend, null);
+    assert.strictEqual(toCsv(data).split("\n").length, 2);
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from "assert";
+import {
+  ForecastInput,
+  ForecastSample,
+  computeForecast,
+  getDailyUsage,
+  pruneSamples,
+} from "../../forecast";
+
+suite("Usage Forecast", function () {
+  const startOfMonth = "2025-03-01T00:00:00";
+  const day = (date: number, hour = 23) =>
+    new Date(2025, 2, date, hour).getTime();
+
+  // 10 requests per weekday, 2 per weekend day, sampled every evening of March 1-14
+  const samples: ForecastSample[] = [];
+  let used = 0;
+  for (let date = 1; date <= 14; date++) {
+    const weekday = new Date(2025, 2, date).getDay();
+    used += weekday === 0 || weekday === 6 ? 2 : 10;
+    samples.push({
+      timestamp: day(date, 23),
+      usedRequests: used,
+      startOfMonth,
+    });
+  }
+
+  const input = (overrides: Partial<ForecastInput> = {}): ForecastInput => ({
+    usedRequests: used,
+    maxRequests: 500,
+    startOfMonth,
+    resetDate: new Date(2025, 3, 1),
+    ...overrides,
+  });
+
+  test("Reconstructs daily usage from refresh samples", () => {
+    const days = getDailyUsage(samples);
+
+    // Saturday March 8th and Monday March 10th
+    const saturday = days.find((d) => d.day === new Date(2025, 2, 8).getTime());
+    const monday = days.find((d) => d.day === new Date(2025, 2, 10).getTime());
+    assert.ok(saturday && monday);
+    assert.ok(saturday.requests < monday.requests);
+  });
+
+  test("Learns weekday and weekend rates", () => {
+    const forecast = computeForecast(samples, input(), day(14, 23));
+
+    assert.ok(forecast);
+    assert.ok(forecast.weekdayRate > forecast.weekendRate);
+    assert.ok(forecast.requestsLow <= forecast.projectedRequests);
+    assert.ok(forecast.projectedRequests <= forecast.requestsHigh);
+    assert.ok(forecast.projectedRequests > used);
+  });
+
+  test("Projects spend beyond the quota against the hard limit", () => {
+    const forecast = computeForecast(
+      samples,
+      input({ maxRequests: 150, spendCents: 0, hardLimitDollars: 1 }),
+      day(14, 23),
+    );
+
+    assert.ok(forecast && forecast.projectedSpendCents !== undefined);
+    assert.ok(forecast.projectedSpendCents > 100);
+    assert.strictEqual(forecast.exceedsBudget, true);
+  });
+
+  test("Needs a whole observed day before forecasting", () => {
+    assert.strictEqual(
+      computeForecast(
+        [{ timestamp: day(1, 9), usedRequests: 5, startOfMonth }],
+        input({ usedRequests: 5 }),
+        day(1, 9),
+      ),
+      undefined,
+    );
+  });
+
+  test("Keeps one sample per refresh burst", () => {
+    const pruned = pruneSamples(
+      [
+        { timestamp: day(14, 10), usedRequests: 1, startOfMonth },
+        { timestamp: day(14, 10) + 60 * 1000, usedRequests: 2, startOfMonth },
+        {
+          timestamp: day(1, 10) - 90 * 24 * 3600 * 1000,
+          usedRequests: 0,
+          startOfMonth,
+        },
+      ],
+      day(14, 11),
+    );
+
+    assert.deepStrictEqual(
+      pruned.map((s) => s.usedRequests),
+      [2],
+    );
+  });
+});
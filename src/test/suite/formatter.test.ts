@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import {
+  UsageFigures,
+  formatAge,
+  formatStatusText,
+  renderTemplate,
+} from "../../formatter";
+
+suite("Status Bar Formatter", function () {
+  const figures: UsageFigures = {
+    remainingRequests: 247,
+    totalRequests: 500,
+    spendCents: 152,
+    hardLimitDollars: 150,
+    daysRemaining: 20,
+    dailyUsageRate: 10,
+    usedTokens: 1_234_000,
+    model: "gpt-4",
+  };
+
+  test("Renders every display mode", () => {
+    assert.strictEqual(formatStatusText("requests", figures), "247");
+    assert.strictEqual(formatStatusText("remaining", figures), "247");
+    assert.strictEqual(formatStatusText("usedTotal", figures), "253/500");
+    assert.strictEqual(formatStatusText("percentage", figures), "51%");
+    assert.strictEqual(formatStatusText("spend", figures), "$1.52/$150.00");
+    assert.strictEqual(formatStatusText("resetDays", figures), "20d");
+    assert.strictEqual(formatStatusText("projected", figures), "~453/500");
+    assert.strictEqual(formatStatusText("tokens", figures), "1.2M");
+  });
+
+  test("Shows spend in the default mode once requests run out", () => {
+    const exhausted = { ...figures, remainingRequests: 0 };
+
+    assert.strictEqual(
+      formatStatusText("requests", exhausted),
+      "$1.52/$150.00",
+    );
+    assert.strictEqual(
+      formatStatusText("requests", {
+        remainingRequests: 0,
+        totalRequests: 500,
+      }),
+      "0",
+    );
+  });
+
+  test("Shows remaining tokens when the model has a token limit", () => {
+    assert.strictEqual(
+      formatStatusText("tokens", { ...figures, maxTokens: 2_000_000 }),
+      "766.0k",
+    );
+    assert.strictEqual(
+      formatStatusText("tokens", { ...figures, usedTokens: undefined }),
+      "247",
+    );
+  });
+
+  test("Renders a custom template", () => {
+    assert.strictEqual(
+      formatStatusText(
+        "custom",
+        figures,
+        "{model}: {remaining}/{total} · {resetDays}d",
+      ),
+      "gpt-4: 247/500 · 20d",
+    );
+  });
+
+  test("Marks unavailable values and keeps unknown placeholders", () => {
+    assert.strictEqual(
+      renderTemplate("{spend} {tokensRemaining} {typo}", {
+        remainingRequests: 10,
+        totalRequests: 500,
+      }),
+      "? ? {typo}",
+    );
+  });
+
+  test("Formats how long ago usage was fetched", () => {
+    assert.strictEqual(formatAge(30 * 1000), "just now");
+    assert.strictEqual(formatAge(5 * 60 * 1000), "5m ago");
+    assert.strictEqual(
+      formatAge(3 * 60 * 60 * 1000 + 59 * 60 * 1000),
+      "3h ago",
+    );
+    assert.strictEqual(formatAge(3 * 24 * 60 * 60 * 1000), "3d ago");
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import { compactSnapshots, UsageSnapshot } from "../../history";
+
+function snapshot(
+  isoTime: string,
+  startOfMonth: string,
+  usedRequests: number,
+  teamId?: number,
+): UsageSnapshot {
+  return {
+    timestamp: new Date(isoTime).getTime(),
+    usedRequests,
+    maxRequests: 500,
+    startOfMonth,
+    teamId,
+  };
+}
+
+suite("Usage History Store", function () {
+  test("Keeps every snapshot of the current billing cycle", () => {
+    const input = [
+      snapshot("2025-09-26T09:00:00Z", "2025-09-24", 10),
+      snapshot("2025-09-26T10:00:00Z", "2025-09-24", 12),
+      snapshot("2025-09-26T11:00:00Z", "2025-09-24", 15),
+    ];
+
+    const result = compactSnapshots(input, 6);
+
+    assert.strictEqual(result.length, 3);
+  });
+
+  test("Compacts past cycles to the last snapshot of each day", () => {
+    const input = [
+      snapshot("2025-08-25T09:00:00Z", "2025-08-24", 10),
+      snapshot("2025-08-25T18:00:00Z", "2025-08-24", 20),
+      snapshot("2025-08-26T09:00:00Z", "2025-08-24", 30),
+      snapshot("2025-09-25T09:00:00Z", "2025-09-24", 5),
+    ];
+
+    const result = compactSnapshots(input, 6);
+
+    assert.deepStrictEqual(
+      result.map((s) => s.usedRequests),
+      [20, 30, 5],
+    );
+  });
+
+  test("Compacts per team so teams do not overwrite each other", () => {
+    const input = [
+      snapshot("2025-08-25T09:00:00Z", "2025-08-24", 10, 1),
+      snapshot("2025-08-25T10:00:00Z", "2025-08-24", 40, 2),
+      snapshot("2025-09-25T09:00:00Z", "2025-09-24", 5, 1),
+    ];
+
+    const result = compactSnapshots(input, 6);
+
+    assert.strictEqual(result.length, 3);
+  });
+
+  test("Drops billing cycles beyond the retention limit", () => {
+    const input = [
+      snapshot("2025-07-25T09:00:00Z", "2025-07-24", 1),
+      snapshot("2025-08-25T09:00:00Z", "2025-08-24", 2),
+      snapshot("2025-09-25T09:00:00Z", "2025-09-24", 3),
+    ];
+
+    const result = compactSnapshots(input, 2);
+
+    assert.deepStrictEqual(
+      result.map((s) => s.startOfMonth),
+      ["2025-08-24", "2025-09-24"],
+    );
+  });
+
+  test("Returns snapshots sorted oldest first regardless of input order", () => {
+    const input = [
+      snapshot("2025-09-26T11:00:00Z", "2025-09-24", 15),
+      snapshot("2025-09-26T09:00:00Z", "2025-09-24", 10),
+    ];
+
+    const result = compactSnapshots(input, 6);
+
+    assert.deepStrictEqual(
+      result.map((s) => s.usedRequests),
+      [10, 15],
+    );
+  });
+});
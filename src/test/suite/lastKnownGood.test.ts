@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import {
+  clearLastKnownGood,
+  getLastKnownGood,
+  keepsLastKnownGood,
+  saveLastKnownGood,
+} from "../../lastKnownGood";
+import {
+  AuthExpiredError,
+  ForbiddenError,
+  MalformedResponseError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+} from "../../errors";
+
+suite("Last Known Good Usage", function () {
+  function fakeContext(): any {
+    const values = new Map<string, unknown>();
+    return {
+      globalState: {
+        get: (key: string) => values.get(key),
+        update: async (key: string, value: unknown) => {
+          values.set(key, value);
+        },
+      },
+    };
+  }
+
+  test("Persists the usage of the last successful refresh", async () => {
+    const context = fakeContext();
+    const usage = {
+      remainingRequests: 370,
+      totalRequests: 500,
+      startOfMonth: "2025-09-24T00:00:00.000Z",
+      teamSummaries: [],
+      modelBuckets: [],
+    };
+
+    assert.strictEqual(getLastKnownGood(context), undefined);
+    await saveLastKnownGood(context, usage, 1000);
+
+    assert.deepStrictEqual(getLastKnownGood(context), {
+      timestamp: 1000,
+      usage,
+    });
+  });
+
+  test("Forgets the usage when cleared", async () => {
+    const context = fakeContext();
+    await saveLastKnownGood(
+      context,
+      {
+        remainingRequests: 370,
+        totalRequests: 500,
+        startOfMonth: "2025-09-24T00:00:00.000Z",
+        teamSummaries: [],
+        modelBuckets: [],
+      },
+      1000,
+    );
+
+    await clearLastKnownGood(context);
+
+    assert.strictEqual(getLastKnownGood(context), undefined);
+  });
+
+  test("Keeps showing usage only while retrying can help", () => {
+    assert.strictEqual(keepsLastKnownGood(new NetworkError("offline")), true);
+    assert.strictEqual(keepsLastKnownGood(new TimeoutError("slow")), true);
+    assert.strictEqual(keepsLastKnownGood(new ServerError("down", 503)), true);
+    assert.strictEqual(
+      keepsLastKnownGood(new MalformedResponseError("bad")),
+      true,
+    );
+    assert.strictEqual(
+      keepsLastKnownGood(new AuthExpiredError("expired")),
+      false,
+    );
+    assert.strictEqual(keepsLastKnownGood(new ForbiddenError("denied")), false);
+  });
+});
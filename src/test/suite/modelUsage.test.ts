@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import { ModelUsage, UserUsageResponse } from "../../models";
+import {
+  formatTokens,
+  getModelBuckets,
+  selectStatusBarBucket,
+} from "../../modelUsage";
+
+suite("Model Usage", function () {
+  const bucket = (
+    numRequests: number,
+    maxRequestUsage: number | null,
+  ): ModelUsage => ({
+    numRequests,
+    numRequestsTotal: numRequests,
+    numTokens: numRequests * 1000,
+    maxRequestUsage,
+    maxTokenUsage: null,
+  });
+
+  const usage: UserUsageResponse = {
+    startOfMonth: "2025-01-15T00:00:00.000Z",
+    "gpt-3.5-turbo": bucket(3, null),
+    "claude-4-sonnet": bucket(40, 200),
+    "gpt-4": bucket(120, 500),
+  };
+
+  test("Lists every model bucket, premium first", () => {
+    assert.deepStrictEqual(
+      getModelBuckets(usage).map((b) => b.model),
+      ["gpt-4", "claude-4-sonnet", "gpt-3.5-turbo"],
+    );
+  });
+
+  test("Selects the preferred bucket when it has a request limit", () => {
+    const buckets = getModelBuckets(usage);
+
+    assert.strictEqual(
+      selectStatusBarBucket(buckets, "claude-4-sonnet")?.model,
+      "claude-4-sonnet",
+    );
+    assert.strictEqual(
+      selectStatusBarBucket(buckets, "gpt-3.5-turbo")?.model,
+      "gpt-4",
+    );
+    assert.strictEqual(
+      selectStatusBarBucket(buckets, "unknown")?.model,
+      "gpt-4",
+    );
+  });
+
+  test("Falls back to any limited bucket without a premium bucket", () => {
+    const buckets = getModelBuckets({
+      startOfMonth: usage.startOfMonth,
+      "gpt-3.5-turbo": bucket(3, null),
+      "claude-4-sonnet": bucket(40, 200),
+    });
+
+    assert.strictEqual(
+      selectStatusBarBucket(buckets, "gpt-4")?.model,
+      "claude-4-sonnet",
+    );
+    assert.strictEqual(selectStatusBarBucket([], "gpt-4"), undefined);
+  });
+
+  test("Formats token counts compactly", () => {
+    assert.strictEqual(formatTokens(950), "950");
+    assert.strictEqual(formatTokens(45210), "45.2k");
+    assert.strictEqual(formatTokens(1_250_000), "1.3M");
+  });
+});
@@ -6,6 +6,8 @@ import { afterEach, beforeEach, after, before } from "mocha";
 import * as statusBar from "../../statusBar";
 import * as api from "../../api";
 import * as config from "../../configuration";
+import * as usageState from "../../usageState";
+import { ServerError } from "../../errors";
 import * as dotenv from "dotenv";
 import * as path from "path";
 import { calculateResetInfo } from "../../extension";
@@ -28,7 +30,15 @@ suite("Daily Notification Feature", function () {
   let context: any;
   let apiStubs: sinon.SinonStub[] = [];
   let cachedApiData: any = {};
-  let realStatusBarText: string = ""; // Store real status bar text from actual data
+
+  // Usage with the whole quota left, for the test notification command
+  const unusedQuota = {
+    remainingRequests: 500,
+    totalRequests: 500,
+    startOfMonth: "2025-09-23T12:00:00.000Z",
+    teamSummaries: [],
+    modelBuckets: [],
+  };
 
   before(async function () {
     this.timeout(TIMEOUT); // Allow time for this initial setup
@@ -71,107 +81,6 @@ suite("Daily Notification Feature", function () {
         cachedApiData.spendData = await api.fetchTeamSpend(teamId, cookie);
       }
     }
-
-    // Generate real status bar text from actual data (just like the extension does)
-    try {
-      const resetInfo = calculateResetInfo(
-        cachedApiData.userUsage.startOfMonth,
-      );
-      let mySpend: any;
-      let maxRequests = cachedApiData.userUsage["gpt-4"].maxRequestUsage || 500;
-
-      if (cachedApiData.spendData && cachedApiData.teamDetails) {
-        mySpend = cachedApiData.spendData.teamMemberSpend.find(
-          (member: any) => member.userId === cachedApiData.teamDetails.userId,
-        );
-      }
-
-      let usedRequests: number;
-      let spendCents: number | undefined;
-      let hardLimitDollars: number | undefined;
-
-      if (!mySpend || typeof mySpend.fastPremiumRequests !== "number") {
-        // Individual user data
-        const gpt4Usage = cachedApiData.userUsage["gpt-4"];
-        usedRequests = gpt4Usage.numRequests;
-        spendCents = undefined;
-        hardLimitDollars = undefined;
-      } else {
-        // Team data
-        usedRequests = mySpend.fastPremiumRequests;
-        spendCents = mySpend.spendCents;
-        hardLimitDollars = mySpend.hardLimitOverrideDollars;
-      }
-
-      const remainingRequests = Math.max(0, maxRequests - usedRequests);
-
-      // Create a temporary status bar item to get the real text
-      const tempStatusBarItem = {
-        text: "",
-        tooltip: "",
-        backgroundColor: undefined,
-        command: "",
-        updateTooltip: (
-          remaining: number,
-          total: number,
-          spend: number | undefined,
-          limit: number | undefined,
-          reset: any,
-        ) => {
-          const used = total - remaining;
-          const percentage = ((used / total) * 100).toFixed(1);
-
-          let tooltip = "";
-          if (reset) {
-            const daysRemaining = reset.daysRemaining;
-            let resetText =
-              daysRemaining === 1
-                ? `Resets tomorrow (${reset.resetDateStr})`
-                : daysRemaining === 0
-                  ? `Resets today (${reset.resetDateStr})`
-                  : `Resets in ${daysRemaining} days (${reset.resetDateStr})`;
-            tooltip = `${resetText}\n\n`;
-          }
-
-          tooltip += `Fast Premium Requests: ${remaining}/${total} remaining (${percentage}% used)`;
-
-          if (spend !== undefined && limit !== undefined) {
-            const spendDollars = spend / 100;
-            const spendPercentage = ((spendDollars / limit) * 100).toFixed(1);
-            const remainingDollars = (limit - spendDollars).toFixed(2);
-            tooltip += `\nSpending: $${spendDollars.toFixed(2)} of $${limit.toFixed(2)} limit (${spendPercentage}% used)`;
-            tooltip += `\nRemaining budget: $${remainingDollars}`;
-          }
-
-          tooltip += `\n\nClick to refresh`;
-          return tooltip;
-        },
-      };
-
-      // Update with real data to get the actual text
-      let statusText: string;
-      if (remainingRequests > 0) {
-        statusText = `$(zap) ${remainingRequests}`;
-      } else {
-        if (spendCents !== undefined && hardLimitDollars !== undefined) {
-          const spendDollars = (spendCents / 100).toFixed(2);
-          const limitDollars = hardLimitDollars.toFixed(2);
-          statusText = `$(zap) $${spendDollars}/$${limitDollars}`;
-        } else {
-          statusText = `$(zap) 0`;
-        }
-      }
-
-      // Store the real status bar text for use in tests
-      realStatusBarText = statusText;
-      console.log(
-        "Real status bar text generated from API data:",
-        realStatusBarText,
-      );
-    } catch (error) {
-      console.error("Failed to generate real status bar text:", error);
-      realStatusBarText = "$(zap) 500/500"; // Fallback to mock data
-    }
   });
 
   beforeEach(() => {
@@ -311,19 +220,15 @@ suite("Daily Notification Feature", function () {
       .withArgs("dailyNotificationState")
       .returns({ date: "2025-09-25", attempts: 0, sent: false });
 
-    // Simulate an API failure by making the status bar return an error state
-    const errorStatusBarStub = sinon
-      .stub(statusBar, "getStatusBarItem")
-      .returns({
-        text: "Loading...",
-      } as any);
+    // Simulate an API failure: the refresh ends in an error state
+    (api.fetchUserUsage as sinon.SinonStub).rejects(
+      new ServerError("HTTP 503: unavailable", 503),
+    );
 
     await extension.checkAndSendNotification(context, now);
 
+    assert.strictEqual(usageState.getUsageState().kind, "error");
     assert.strictEqual(showInformationMessageStub.called, false);
-
-    // Restore the error status bar stub
-    errorStatusBarStub.restore();
   });
 
   test("Team Data Success Test: User usage succeeds and team usage succeeds", async () => {
@@ -340,17 +245,7 @@ suite("Daily Notification Feature", function () {
     // The global setup already provides successful team data
     // This tests the scenario where both user and team usage succeed
 
-    // Use the real status bar text that was calculated from actual API data
-    console.log("realStatusBarText value:", realStatusBarText);
-    const teamStatusBarStub = sinon
-      .stub(statusBar, "getStatusBarItem")
-      .returns({
-        text: "$(zap) 370", // Use a realistic remaining value
-        tooltip:
-          "Resets in 28 days (2025-10-24) --> 130 requests/day avg\nFast Premium Requests: 370/500 remaining (26.0% used)\nSpending: $10.44 of $10.00 limit (104.4% used)\nRemaining budget: $-0.44\n\nClick to refresh",
-      } as any);
-
-    // Also stub the updateStatusBar method to prevent the extension from updating the status bar during the test
+    // Stub the updateStatusBar method to prevent the extension from updating the status bar during the test
     const updateStatusBarStub = sinon.stub(statusBar, "updateStatusBar");
 
     await extension.checkAndSendNotification(context, now);
@@ -362,18 +257,9 @@ suite("Daily Notification Feature", function () {
       "Should send notification with team data when both APIs succeed",
     );
 
-    // Verify the notification contains the expected tooltip message (reversed order as per getFullTooltipMessage)
+    // Verify the notification is rendered from the refreshed usage (see notificationMessage.ts)
     const cursorCall = showInformationMessageStub.getCall(0);
-    const expectedTooltipMessage =
-      "Fast Premium Requests: 500/500 remaining (0.0% used)\nResets in 28 days (2025-10-24)";
-    console.log("Expected tooltip message:", expectedTooltipMessage);
     console.log("Actual notification message:", cursorCall.args[0]);
-    console.log(
-      "Message lengths - Expected:",
-      expectedTooltipMessage.length,
-      "Actual:",
-      cursorCall.args[0].length,
-    );
     const actual = cursorCall.args[0];
 
     // Structural checks
@@ -382,13 +268,14 @@ suite("Daily Notification Feature", function () {
       .filter((l: string) => l.trim() !== "");
     console.log("Actual separated components:", lines); // Debug log
 
-    // Flexible component count: 4 base + 1 if warning present
-    const hasWarning = lines.some((l: string) => l.startsWith("⚠️"));
-    const expectedLength = hasWarning ? 5 : 4;
+    // 4 base components, followed by one component per warning
+    const warningCount = lines.filter((l: string) =>
+      l.startsWith("⚠️"),
+    ).length;
     assert.strictEqual(
       lines.length,
-      expectedLength,
-      `Expected ${expectedLength} separated components for team data`,
+      4 + warningCount,
+      `Expected ${4 + warningCount} separated components for team data`,
     );
 
     // Check requests first
@@ -419,17 +306,16 @@ suite("Daily Notification Feature", function () {
       "Reset component does not match expected structure",
     );
 
-    // If warning present, check it last
-    if (hasWarning) {
+    // Warnings, if any, come last
+    for (const warning of lines.slice(4)) {
       assert.match(
-        lines[4],
+        warning,
         /^⚠️ .+$/,
         "Warning component does not match expected structure",
       );
     }
 
-    // Restore the status bar stubs
-    teamStatusBarStub.restore();
+    // Restore the status bar stub
     updateStatusBarStub.restore();
   });
 
@@ -444,13 +330,10 @@ suite("Daily Notification Feature", function () {
       .withArgs("dailyNotificationState")
       .returns({ date: "2025-09-25", attempts: 0, sent: false });
 
-    // Simulate complete API failure by making the status bar return an error state
-    // (This simulates the user usage API failing)
-    const errorStatusBarStub = sinon
-      .stub(statusBar, "getStatusBarItem")
-      .returns({
-        text: "Failed", // Error state should prevent notification
-      } as any);
+    // Simulate complete API failure: the user usage API fails
+    (api.fetchUserUsage as sinon.SinonStub).rejects(
+      new ServerError("HTTP 500: internal error", 500),
+    );
 
     await extension.checkAndSendNotification(context, now);
 
@@ -470,9 +353,6 @@ suite("Daily Notification Feature", function () {
       true,
       "Should update notification state for retry mechanism",
     );
-
-    // Restore the error status bar stub
-    errorStatusBarStub.restore();
   });
 
   test("New Day Reset Test: Resets State and Sends Notification", async () => {
@@ -530,23 +410,16 @@ suite("Daily Notification Feature", function () {
       shouldClearNativeTimers: true,
     });
 
-    // Use real status bar text generated from actual API data
-    const statusBarStub = sinon.stub(statusBar, "getStatusBarItem").returns({
-      text: realStatusBarText,
-      tooltip:
-        "Resets in 28 days (2025-10-24)\nFast Premium Requests: 500/500 remaining (0.0% used)\n\nClick to refresh",
-    } as any);
-
-    // The test command should work with the existing global setup
-    // We just need to verify that the notifications are sent
+    usageState.setUsageState({
+      kind: "usage",
+      usage: unusedQuota,
+      asOf: now.getTime(),
+    });
 
     await testNotification(context);
 
     // Verify Cursor notification was called
     assert.strictEqual(showInformationMessageStub.calledOnce, true); // Cursor notification
-
-    // Restore stubs
-    statusBarStub.restore();
   });
 
   test("Notification Fallback: Cursor notification always works", async () => {
@@ -556,12 +429,11 @@ suite("Daily Notification Feature", function () {
       shouldClearNativeTimers: true,
     });
 
-    // Use real status bar text generated from actual API data
-    const statusBarStub = sinon.stub(statusBar, "getStatusBarItem").returns({
-      text: realStatusBarText,
-      tooltip:
-        "Resets in 28 days (2025-10-24)\nFast Premium Requests: 500/500 remaining (0.0% used)\n\nClick to refresh",
-    } as any);
+    usageState.setUsageState({
+      kind: "usage",
+      usage: unusedQuota,
+      asOf: now.getTime(),
+    });
 
     // Mock the require function to simulate node-notifier being unavailable
     const originalRequire = require;
@@ -580,14 +452,13 @@ suite("Daily Notification Feature", function () {
     // Verify Cursor notification was called (OS notification should be skipped)
     assert.strictEqual(showInformationMessageStub.called, true);
 
-    // Check the message content - should be the reversed tooltip message (consumption first, reset second)
+    // Check the message content - consumption first, reset second
     const cursorCall = showInformationMessageStub.getCall(0);
-    const expectedFullMessage =
-      "Fast Premium Requests: 500/500 remaining (0.0% used) |-----| Resets in 28 days (2025-10-24)"; // Separated version
+    const resetInfo = calculateResetInfo(unusedQuota.startOfMonth);
+    const expectedFullMessage = `Fast Premium Requests: 500/500 remaining (0.0% used) |-----| Resets in ${resetInfo.daysRemaining} days (${resetInfo.resetDateStr})`; // Separated version
     assert.strictEqual(cursorCall.args[0], expectedFullMessage);
 
     // Restore original require
     require = originalRequire;
-    statusBarStub.restore();
   });
 });
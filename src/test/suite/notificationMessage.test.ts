@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import { renderUsageMessage } from "../../notificationMessage";
+import { DEFAULT_ALERT_THRESHOLDS } from "../../thresholds";
+
+suite("Notification Message", function () {
+  const cycle = {
+    start: new Date("2025-09-24T00:00:00Z"),
+    end: new Date("2025-10-24T00:00:00Z"),
+    totalDays: 30,
+    elapsedDays: 26,
+    daysRemaining: 28,
+    resetDateStr: "2025-10-24",
+  };
+  const usage = {
+    remainingRequests: 370,
+    totalRequests: 500,
+    startOfMonth: "2025-09-24T00:00:00.000Z",
+    teamSummaries: [],
+    modelBuckets: [],
+  };
+
+  test("Lists requests, then the reset with the daily rate", () => {
+    assert.strictEqual(
+      renderUsageMessage(usage, cycle, DEFAULT_ALERT_THRESHOLDS),
+      "Fast Premium Requests: 370/500 remaining (26.0% used)\nResets in 28 days (2025-10-24) --> 5 requests/day avg",
+    );
+  });
+
+  test("Adds spending and the remaining budget for team usage", () => {
+    const lines = renderUsageMessage(
+      { ...usage, spendCents: 1044, hardLimitDollars: 20 },
+      cycle,
+      DEFAULT_ALERT_THRESHOLDS,
+    ).split("\n");
+
+    assert.deepStrictEqual(lines.slice(1, 3), [
+      "Spending: $10.44 of $20.00 limit (52.2% used)",
+      "Remaining budget: $9.56",
+    ]);
+  });
+
+  test("Names the model bucket and ends with the warnings", () => {
+    const lines = renderUsageMessage(
+      { ...usage, remainingRequests: 20, statusBarModel: "claude-4" },
+      { ...cycle, elapsedDays: 2, daysRemaining: 1 },
+      DEFAULT_ALERT_THRESHOLDS,
+    ).split("\n");
+
+    assert.strictEqual(
+      lines[0],
+      "claude-4 Requests: 20/500 remaining (96.0% used)",
+    );
+    assert.strictEqual(
+      lines[1],
+      "Resets tomorrow (2025-10-24) --> 240 requests/day avg",
+    );
+    assert.strictEqual(lines[lines.length - 1], "⚠️ Low on requests");
+  });
+});
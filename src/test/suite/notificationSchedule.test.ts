@@ -0,0 +1,132 @@
+import * as assert from "assert";
+import {
+  DEFAULT_NOTIFICATION_SCHEDULE,
+  NotificationSchedule,
+  getDueSlot,
+  getNextDigestTime,
+  isQuietTime,
+  isSlotExpired,
+  parseTime,
+} from "../../notificationSchedule";
+
+suite("Notification Schedule", function () {
+  const schedule = (
+    overrides: Partial<NotificationSchedule> = {},
+  ): NotificationSchedule => ({
+    ...DEFAULT_NOTIFICATION_SCHEDULE,
+    ...overrides,
+  });
+
+  test("Parses digest times", () => {
+    assert.strictEqual(parseTime("09:00"), 540);
+    assert.strictEqual(parseTime("7:30"), 450);
+    assert.strictEqual(parseTime("24:00"), undefined);
+    assert.strictEqual(parseTime("noon"), undefined);
+  });
+
+  test("A daily digest is due from its time until the end of the day", () => {
+    const defaults = schedule();
+
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 8, 55), defaults),
+      undefined,
+    );
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 14, 0), defaults)?.date,
+      "2025-09-25",
+    );
+  });
+
+  test("Skips days that are not digest days", () => {
+    // Saturday September 27th, 2025
+    const weekdays = schedule({ days: [1, 2, 3, 4, 5] });
+
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 27, 10, 0), weekdays),
+      undefined,
+    );
+    assert.deepStrictEqual(
+      getNextDigestTime(new Date(2025, 8, 27, 10, 0), weekdays),
+      new Date(2025, 8, 29, 9, 0),
+    );
+  });
+
+  test("Tracks each of several digest times separately", () => {
+    const twice = schedule({ times: [540, 1020] });
+
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 12, 0), twice)?.slot,
+      "09:00",
+    );
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 18, 0), twice)?.slot,
+      "17:00",
+    );
+  });
+
+  test("A missed weekly digest stays due for the week", () => {
+    // Monday September 22nd, 2025 was the digest day
+    const weekly = schedule({ frequency: "weekly", weeklyDay: 1 });
+
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 8, 0), weekly)?.date,
+      "2025-09-22",
+    );
+  });
+
+  test("Sends nothing when digests are off", () => {
+    const off = schedule({ frequency: "off" });
+
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 25, 10, 0), off),
+      undefined,
+    );
+    assert.strictEqual(
+      getNextDigestTime(new Date(2025, 8, 25, 10, 0), off),
+      undefined,
+    );
+  });
+
+  test("Holds digests back during quiet hours that span midnight", () => {
+    const quiet = schedule({
+      times: [23 * 60],
+      quietHours: { start: 22 * 60, end: 7 * 60 },
+    });
+
+    assert.strictEqual(
+      isQuietTime(new Date(2025, 8, 25, 23, 30), quiet.quietHours),
+      true,
+    );
+    assert.strictEqual(
+      isQuietTime(new Date(2025, 8, 25, 7, 0), quiet.quietHours),
+      false,
+    );
+    assert.deepStrictEqual(
+      getNextDigestTime(new Date(2025, 8, 25, 12, 0), quiet),
+      new Date(2025, 8, 26, 7, 0),
+    );
+    assert.strictEqual(
+      getDueSlot(new Date(2025, 8, 26, 7, 30), quiet)?.date,
+      "2025-09-25",
+    );
+  });
+
+  test("Skips a missed digest only when catch-up is off", () => {
+    const now = new Date(2025, 8, 25, 14, 0);
+    const slot = getDueSlot(now, schedule())!;
+
+    assert.strictEqual(isSlotExpired(slot, now, schedule()), false);
+    assert.strictEqual(
+      isSlotExpired(slot, now, schedule({ catchUp: "skip" })),
+      true,
+    );
+    assert.strictEqual(
+      isSlotExpired(
+        slot,
+        new Date(2025, 8, 25, 9, 10),
+        schedule({ catchUp: "skip" }),
+      ),
+      false,
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import {
+  createDbusBackend,
+  createFakeBackend,
+  createNotifySendBackend,
+  createOsascriptBackend,
+  getOsBackendNames,
+  sendOsNotification,
+  showsEditorNotifications,
+  toGVariantString,
+} from "../../notifier";
+
+suite("Notifier Backends", function () {
+  const notification = {
+    title: "Cursor",
+    subtitle: "Usage Update",
+    message: `Requests: 370/500 "remaining"\n$(echo it's) $HOME`,
+    timeoutMs: 30000,
+  };
+
+  function recordingRunner() {
+    const calls: { command: string; args: string[] }[] = [];
+    const run = async (command: string, args: string[]) => {
+      calls.push({ command, args });
+    };
+    return { calls, run };
+  }
+
+  test("Picks OS backends per platform", () => {
+    assert.deepStrictEqual(getOsBackendNames("auto", "darwin"), [
+      "nodeNotifier",
+      "osascript",
+    ]);
+    assert.deepStrictEqual(getOsBackendNames("auto", "linux"), [
+      "notifySend",
+      "dbus",
+      "nodeNotifier",
+    ]);
+    assert.deepStrictEqual(getOsBackendNames("auto", "win32"), [
+      "nodeNotifier",
+    ]);
+    assert.deepStrictEqual(getOsBackendNames("notifySend", "darwin"), [
+      "notifySend",
+    ]);
+    assert.deepStrictEqual(getOsBackendNames("editor", "linux"), []);
+    assert.deepStrictEqual(getOsBackendNames("none", "linux"), []);
+  });
+
+  test("Shows editor notifications unless turned off", () => {
+    assert.strictEqual(showsEditorNotifications("editor"), true);
+    assert.strictEqual(showsEditorNotifications("auto"), true);
+    assert.strictEqual(showsEditorNotifications("none"), false);
+  });
+
+  test("Passes texts to notify-send as separate arguments", async () => {
+    const { calls, run } = recordingRunner();
+
+    await createNotifySendBackend(run, "/icons/logo.png").notify(notification);
+
+    assert.deepStrictEqual(calls, [
+      {
+        command: "notify-send",
+        args: [
+          "--app-name=Cursor",
+          "--expire-time=30000",
+          "--icon=/icons/logo.png",
+          "--",
+          "Cursor: Usage Update",
+          notification.message,
+        ],
+      },
+    ]);
+  });
+
+  test("Passes texts to osascript as script arguments", async () => {
+    const { calls, run } = recordingRunner();
+
+    await createOsascriptBackend(run).notify(notification);
+
+    assert.strictEqual(calls[0].command, "osascript");
+    assert.deepStrictEqual(calls[0].args.slice(-3), [
+      "Cursor",
+      notification.message,
+      "Usage Update",
+    ]);
+  });
+
+  test("Quotes texts for gdbus as GVariant strings", async () => {
+    const { calls, run } = recordingRunner();
+
+    await createDbusBackend(run).notify({
+      title: "Cursor",
+      message: "it's\n\\",
+    });
+
+    assert.strictEqual(calls[0].command, "gdbus");
+    assert.ok(calls[0].args.includes("'it\\'s\\n\\\\'"));
+    assert.strictEqual(toGVariantString(""), "''");
+  });
+
+  test("Falls back to the next backend when one fails", async () => {
+    const failing = createFakeBackend(true);
+    const working = createFakeBackend();
+
+    const sentVia = await sendOsNotification([failing, working], notification);
+
+    assert.strictEqual(sentVia, "fake");
+    assert.deepStrictEqual(failing.sent, []);
+    assert.deepStrictEqual(working.sent, [notification]);
+  });
+
+  test("Reports when no backend could show the notification", async () => {
+    const sentVia = await sendOsNotification(
+      [createFakeBackend(true)],
+      notification,
+    );
+
+    assert.strictEqual(sentVia, undefined);
+  });
+});
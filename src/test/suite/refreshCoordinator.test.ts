@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import {
+  RefreshRun,
+  cancelRefresh,
+  isCurrent,
+  requestRefresh,
+} from "../../refreshCoordinator";
+
+suite("Refresh Coordinator", function () {
+  /**
+   * A refresh that records its run and finishes when told to.
+   */
+  function pendingRefresh() {
+    const runs: RefreshRun[] = [];
+    const finishers: (() => void)[] = [];
+    const refresh = (run: RefreshRun) =>
+      new Promise<void>((resolve) => {
+        runs.push(run);
+        finishers.push(resolve);
+      });
+    return { runs, refresh, finishAll: () => finishers.forEach((f) => f()) };
+  }
+
+  teardown(() => cancelRefresh());
+
+  test("Joins a refresh that is already running", async () => {
+    const { runs, refresh, finishAll } = pendingRefresh();
+
+    const first = requestRefresh(refresh);
+    const second = requestRefresh(refresh);
+    finishAll();
+    await Promise.all([first, second]);
+
+    assert.strictEqual(first, second);
+    assert.strictEqual(runs.length, 1);
+  });
+
+  test("Starts a new refresh once the previous one finished", async () => {
+    const { runs, refresh, finishAll } = pendingRefresh();
+
+    const first = requestRefresh(refresh);
+    finishAll();
+    await first;
+    const second = requestRefresh(refresh);
+    finishAll();
+    await second;
+
+    assert.strictEqual(runs.length, 2);
+    assert.ok(runs[1].sequence > runs[0].sequence);
+  });
+
+  test("Lets a superseding refresh win over the one it replaced", async () => {
+    const { runs, refresh, finishAll } = pendingRefresh();
+
+    const older = requestRefresh(refresh);
+    const newer = requestRefresh(refresh, { supersede: true });
+    finishAll();
+    await Promise.all([older, newer]);
+
+    assert.notStrictEqual(older, newer);
+    assert.strictEqual(runs[0].signal.aborted, true);
+    assert.strictEqual(isCurrent(runs[0]), false);
+    assert.strictEqual(isCurrent(runs[1]), true);
+  });
+
+  test("Cancels the running refresh", () => {
+    const { runs, refresh } = pendingRefresh();
+
+    requestRefresh(refresh);
+    cancelRefresh();
+
+    assert.strictEqual(runs[0].signal.aborted, true);
+    assert.strictEqual(isCurrent(runs[0]), false);
+  });
+
+  test("Never rejects when the refresh fails", async () => {
+    await requestRefresh(async () => {
+      throw new Error("boom");
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import {
+  IDLE_AFTER_MS,
+  MAX_BACKOFF_MS,
+  MIN_POLL_MS,
+  computePollDelayMs,
+  initializeScheduler,
+  isNearThreshold,
+  recordRefresh,
+  setWindowFocused,
+  startScheduler,
+  stopScheduler,
+} from "../../refreshScheduler";
+
+suite("Refresh Scheduler", function () {
+  const MINUTE = 60 * 1000;
+  const focused = { focused: true, unfocusedForMs: 0, nearThreshold: false };
+  let clock: sinon.SinonFakeTimers | undefined;
+
+  teardown(() => {
+    stopScheduler();
+    setWindowFocused(true);
+    clock?.restore();
+    clock = undefined;
+  });
+
+  test("Polls at the configured interval while focused", () => {
+    assert.strictEqual(computePollDelayMs(30, focused), 30 * MINUTE);
+  });
+
+  test("Polls more often near a threshold", () => {
+    assert.strictEqual(
+      computePollDelayMs(30, { ...focused, nearThreshold: true }),
+      7.5 * MINUTE,
+    );
+    assert.strictEqual(
+      computePollDelayMs(2, { ...focused, nearThreshold: true }),
+      MIN_POLL_MS,
+    );
+  });
+
+  test("Backs off in the background and more once idle", () => {
+    assert.strictEqual(
+      computePollDelayMs(30, {
+        focused: false,
+        unfocusedForMs: 5 * MINUTE,
+        nearThreshold: false,
+      }),
+      60 * MINUTE,
+    );
+    assert.strictEqual(
+      computePollDelayMs(30, {
+        focused: false,
+        unfocusedForMs: IDLE_AFTER_MS,
+        nearThreshold: false,
+      }),
+      MAX_BACKOFF_MS,
+    );
+    assert.strictEqual(
+      computePollDelayMs(180, {
+        focused: false,
+        unfocusedForMs: IDLE_AFTER_MS,
+        nearThreshold: false,
+      }),
+      180 * MINUTE,
+    );
+  });
+
+  test("Detects usage close to a threshold it has not crossed", () => {
+    const usage = {
+      totalRequests: 500,
+      requestThresholds: [50],
+      spendThresholds: [80],
+    };
+
+    assert.strictEqual(
+      isNearThreshold({ ...usage, remainingRequests: 70 }),
+      true,
+    );
+    assert.strictEqual(
+      isNearThreshold({ ...usage, remainingRequests: 200 }),
+      false,
+    );
+    assert.strictEqual(
+      isNearThreshold({ ...usage, remainingRequests: 40 }),
+      false,
+    );
+    assert.strictEqual(
+      isNearThreshold({ ...usage, remainingRequests: 20 }),
+      true,
+    );
+    assert.strictEqual(
+      isNearThreshold({
+        ...usage,
+        remainingRequests: 0,
+        spendCents: 11_500,
+        hardLimitDollars: 150,
+      }),
+      true,
+    );
+  });
+
+  test("Polls again once a refresh is recorded", async () => {
+    clock = sinon.useFakeTimers({ now: 0 });
+    const refresh = sinon.spy(async () => undefined);
+    initializeScheduler({
+      refresh,
+      getPollMinutes: () => 30,
+      isUsageNearThreshold: () => false,
+    });
+    startScheduler();
+    await clock.tickAsync(60 * MINUTE);
+    assert.strictEqual(refresh.callCount, 1);
+
+    recordRefresh();
+    await clock.tickAsync(30 * MINUTE);
+    assert.strictEqual(refresh.callCount, 2);
+  });
+
+  test("Refreshes stale usage when the window regains focus", async () => {
+    clock = sinon.useFakeTimers({ now: 0 });
+    const refresh = sinon.spy(async () => recordRefresh());
+    initializeScheduler({
+      refresh,
+      getPollMinutes: () => 30,
+      isUsageNearThreshold: () => false,
+    });
+    startScheduler();
+    await clock.tickAsync(0);
+
+    setWindowFocused(false, Date.now());
+    await clock.tickAsync(40 * MINUTE);
+    assert.strictEqual(refresh.callCount, 1);
+
+    setWindowFocused(true, Date.now());
+    await clock.tickAsync(0);
+    assert.strictEqual(refresh.callCount, 2);
+  });
+});
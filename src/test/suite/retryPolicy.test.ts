@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import {
+  AuthExpiredError,
+  RateLimitedError,
+  ServerError,
+  TimeoutError,
+} from "../../errors";
+import { getRetryDelay, resolveRetryPolicy } from "../../retryPolicy";
+
+suite("Retry Policy", function () {
+  const policy = resolveRetryPolicy({
+    maxAttempts: 5,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    jitter: 0.5,
+  });
+  const noJitter = () => 0;
+
+  test("Backs off exponentially up to the maximum delay", () => {
+    const error = new ServerError("HTTP 502", 502);
+
+    assert.strictEqual(getRetryDelay(policy, 1, error, noJitter), 100);
+    assert.strictEqual(getRetryDelay(policy, 2, error, noJitter), 200);
+    assert.strictEqual(getRetryDelay(policy, 3, error, noJitter), 400);
+    assert.strictEqual(
+      getRetryDelay({ ...policy, maxAttempts: 10 }, 6, error, noJitter),
+      1000,
+    );
+  });
+
+  test("Applies jitter to a fraction of the delay", () => {
+    const error = new TimeoutError("timed out");
+
+    assert.strictEqual(
+      getRetryDelay(policy, 2, error, () => 1),
+      100,
+    );
+    assert.strictEqual(
+      getRetryDelay(policy, 2, error, () => 0.5),
+      150,
+    );
+  });
+
+  test("Stops after the last attempt", () => {
+    assert.strictEqual(
+      getRetryDelay(policy, 5, new TimeoutError("timed out")),
+      undefined,
+    );
+  });
+
+  test("Does not retry non-retryable errors", () => {
+    assert.strictEqual(
+      getRetryDelay(policy, 1, new AuthExpiredError("HTTP 401")),
+      undefined,
+    );
+  });
+
+  test("Honours Retry-After within the maximum delay", () => {
+    assert.strictEqual(
+      getRetryDelay(policy, 1, new RateLimitedError("HTTP 429", 800)),
+      800,
+    );
+    assert.strictEqual(
+      getRetryDelay(policy, 1, new RateLimitedError("HTTP 429", 60000)),
+      undefined,
+    );
+  });
+});
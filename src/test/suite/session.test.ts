@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import {
+  AuthExpiredError,
+  ForbiddenError,
+  NetworkError,
+  ServerError,
+} from "../../errors";
+import {
+  hashCookie,
+  isSessionPaused,
+  isSessionRejected,
+  pauseSession,
+  resumeSession,
+  saveCookie,
+} from "../../session";
+
+suite("Session", function () {
+  let values: Map<string, unknown>;
+  let context: any;
+
+  setup(() => {
+    values = new Map();
+    context = {
+      globalState: {
+        get: (key: string) => values.get(key),
+        update: async (key: string, value: unknown) => {
+          values.set(key, value);
+        },
+      },
+      secrets: { store: sinon.stub().resolves() },
+    };
+  });
+
+  test("Treats 401 and 403 as a rejected session", () => {
+    assert.strictEqual(
+      isSessionRejected(new AuthExpiredError("HTTP 401")),
+      true,
+    );
+    assert.strictEqual(isSessionRejected(new ForbiddenError("HTTP 403")), true);
+    assert.strictEqual(
+      isSessionRejected(new ServerError("HTTP 503", 503)),
+      false,
+    );
+    assert.strictEqual(isSessionRejected(new NetworkError("offline")), false);
+  });
+
+  test("Pauses polling for the rejected cookie by its hash", async () => {
+    await pauseSession(context.globalState, "old-cookie");
+
+    assert.strictEqual(
+      values.get("expiredCookieHash"),
+      hashCookie("old-cookie"),
+    );
+    assert.ok(![...values.values()].includes("old-cookie"));
+    assert.strictEqual(
+      isSessionPaused(context.globalState, "old-cookie"),
+      true,
+    );
+  });
+
+  test("Does not pause a different cookie", async () => {
+    await pauseSession(context.globalState, "old-cookie");
+
+    assert.strictEqual(
+      isSessionPaused(context.globalState, "new-cookie"),
+      false,
+    );
+  });
+
+  test("Lifts the pause on request", async () => {
+    await pauseSession(context.globalState, "old-cookie");
+    await resumeSession(context.globalState);
+
+    assert.strictEqual(
+      isSessionPaused(context.globalState, "old-cookie"),
+      false,
+    );
+  });
+
+  test("Saving a new cookie stores it and lifts the pause", async () => {
+    await pauseSession(context.globalState, "old-cookie");
+
+    const saved = await saveCookie(context, "new-cookie", async () => true);
+
+    assert.strictEqual(saved, true);
+    sinon.assert.calledOnceWithExactly(
+      context.secrets.store,
+      "cursor.cookie",
+      "new-cookie",
+    );
+    assert.strictEqual(values.get("expiredCookieHash"), undefined);
+  });
+
+  test("Never stores a cookie that fails validation", async () => {
+    await pauseSession(context.globalState, "old-cookie");
+    const validate = sinon.stub().resolves(false);
+
+    const saved = await saveCookie(context, "bad-cookie", validate);
+
+    assert.strictEqual(saved, false);
+    sinon.assert.calledOnceWithExactly(validate, "bad-cookie");
+    sinon.assert.notCalled(context.secrets.store);
+    assert.strictEqual(
+      isSessionPaused(context.globalState, "old-cookie"),
+      true,
+    );
+  });
+});
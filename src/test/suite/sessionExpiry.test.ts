@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as sinon from "sinon";
+import * as api from "../../api";
+import * as circuitBreaker from "../../circuitBreaker";
+import { AuthExpiredError, ForbiddenError } from "../../errors";
+import { hashCookie } from "../../session";
+import { getUsageStats } from "../../extension";
+
+suite("Session Expiry", function () {
+  const cookie = "rejected-cookie";
+  const userMe = {
+    email: "user@example.com",
+    email_verified: true,
+    name: "User",
+    sub: "user_1",
+    updated_at: "2025-09-24T00:00:00.000Z",
+    picture: null,
+  };
+  let values: Map<string, unknown>;
+  let context: any;
+
+  setup(() => {
+    circuitBreaker.resetCircuit();
+    values = new Map();
+    context = {
+      secrets: {
+        get: sinon.stub().withArgs("cursor.cookie").resolves(cookie),
+        store: sinon.stub().resolves(),
+      },
+      globalState: {
+        get: (key: string) => values.get(key),
+        update: async (key: string, value: unknown) => {
+          values.set(key, value);
+        },
+        keys: () => [...values.keys()],
+      },
+      workspaceState: {
+        get: sinon.stub(),
+        update: sinon.stub().resolves(undefined),
+      },
+    };
+    sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+    sinon.stub(api, "fetchTeams").resolves({ teams: [] });
+  });
+
+  teardown(() => {
+    sinon.restore();
+    circuitBreaker.resetCircuit();
+  });
+
+  const rejections = [
+    ["401", () => new AuthExpiredError("HTTP 401: unauthorized")],
+    ["403", () => new ForbiddenError("HTTP 403: forbidden")],
+  ] as const;
+
+  for (const [status, rejection] of rejections) {
+    test(`Pauses polling on ${status} from auth/me`, async () => {
+      sinon.stub(api, "fetchUserMe").rejects(rejection());
+      const fetchUserUsage = sinon.stub(api, "fetchUserUsage");
+
+      assert.strictEqual(await getUsageStats(context), null);
+
+      assert.strictEqual(values.get("expiredCookieHash"), hashCookie(cookie));
+      sinon.assert.notCalled(fetchUserUsage);
+    });
+
+    test(`Pauses polling on ${status} from usage`, async () => {
+      sinon.stub(api, "fetchUserMe").resolves(userMe);
+      sinon.stub(api, "fetchUserUsage").rejects(rejection());
+
+      assert.strictEqual(await getUsageStats(context), null);
+
+      assert.strictEqual(values.get("expiredCookieHash"), hashCookie(cookie));
+    });
+  }
+
+  test("Sends no requests while the stored cookie is paused", async () => {
+    values.set("expiredCookieHash", hashCookie(cookie));
+    const fetchUserMe = sinon.stub(api, "fetchUserMe").resolves(userMe);
+    const fetchUserUsage = sinon.stub(api, "fetchUserUsage");
+
+    assert.strictEqual(await getUsageStats(context), null);
+
+    sinon.assert.notCalled(fetchUserMe);
+    sinon.assert.notCalled(fetchUserUsage);
+  });
+
+  test("Polls again once a new cookie is stored", async () => {
+    values.set("expiredCookieHash", hashCookie("previous-cookie"));
+    const fetchUserMe = sinon.stub(api, "fetchUserMe").resolves(userMe);
+    sinon.stub(api, "fetchUserUsage").resolves({
+      startOfMonth: "2025-09-24T00:00:00.000Z",
+    });
+
+    await getUsageStats(context);
+
+    sinon.assert.calledOnce(fetchUserMe);
+  });
+});
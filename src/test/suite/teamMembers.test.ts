@@ -0,0 +1,179 @@
+import * as assert from "assert";
+import { TeamMemberSpend } from "../../models";
+import { DEFAULT_ALERT_THRESHOLDS } from "../../thresholds";
+import {
+  MemberLimits,
+  getDisplayName,
+  getLimitStatus,
+  getMemberHardLimit,
+  getVisibleMembers,
+} from "../../teamMembers";
+
+suite("Team Members", function () {
+  const members: TeamMemberSpend[] = [
+    {
+      email: "ana@example.com",
+      name: "Ana",
+      role: "member",
+      fastPremiumRequests: 120,
+      spendCents: 500,
+    },
+    {
+      email: "zoe@example.com",
+      name: "Zoe",
+      role: "admin",
+      fastPremiumRequests: 480,
+      spendCents: 0,
+    },
+    {
+      email: "max@example.com",
+      role: "owner",
+      fastPremiumRequests: 300,
+      spendCents: 2500,
+    },
+  ];
+  const limits: MemberLimits = { maxRequests: 500, teamHardLimitDollars: 50 };
+  const names = (list: TeamMemberSpend[]) => list.map(getDisplayName);
+
+  suite("getVisibleMembers", () => {
+    test("Sorts by spend, highest first", () => {
+      assert.deepStrictEqual(names(getVisibleMembers(members, "spend", "")), [
+        "max@example.com",
+        "Ana",
+        "Zoe",
+      ]);
+    });
+
+    test("Sorts by fast premium requests, highest first", () => {
+      assert.deepStrictEqual(
+        names(getVisibleMembers(members, "requests", "")),
+        ["Zoe", "max@example.com", "Ana"],
+      );
+    });
+
+    test("Sorts by name, falling back to the email", () => {
+      assert.deepStrictEqual(names(getVisibleMembers(members, "name", "")), [
+        "Ana",
+        "max@example.com",
+        "Zoe",
+      ]);
+    });
+
+    test("Sorts by role", () => {
+      assert.deepStrictEqual(names(getVisibleMembers(members, "role", "")), [
+        "Zoe",
+        "Ana",
+        "max@example.com",
+      ]);
+    });
+
+    test("Treats missing figures as zero", () => {
+      const sorted = getVisibleMembers(
+        [{ email: "new@example.com" }, ...members],
+        "requests",
+        "",
+      );
+
+      assert.strictEqual(sorted[sorted.length - 1].email, "new@example.com");
+    });
+
+    test("Filters by name, email or role, ignoring case", () => {
+      assert.deepStrictEqual(names(getVisibleMembers(members, "name", "ZOE")), [
+        "Zoe",
+      ]);
+      assert.deepStrictEqual(
+        names(getVisibleMembers(members, "name", "max@")),
+        ["max@example.com"],
+      );
+      assert.deepStrictEqual(
+        names(getVisibleMembers(members, "name", "admin")),
+        ["Zoe"],
+      );
+      assert.deepStrictEqual(getVisibleMembers(members, "name", "nobody"), []);
+    });
+
+    test("Does not reorder the members it was given", () => {
+      getVisibleMembers(members, "name", "");
+
+      assert.deepStrictEqual(names(members), ["Ana", "Zoe", "max@example.com"]);
+    });
+  });
+
+  suite("getLimitStatus", () => {
+    const status = (member: TeamMemberSpend, memberLimits = limits) =>
+      getLimitStatus(member, memberLimits, DEFAULT_ALERT_THRESHOLDS);
+
+    test("Is ok well within every limit", () => {
+      assert.deepStrictEqual(status(members[0]), { level: "ok" });
+    });
+
+    test("Measures spend against the team hard limit without an override", () => {
+      assert.deepStrictEqual(
+        status({ email: "a@example.com", spendCents: 4000 }),
+        { level: "near", message: "Approaching spend limit" },
+      );
+      assert.deepStrictEqual(
+        status({ email: "a@example.com", spendCents: 5000 }),
+        { level: "over", message: "Spend limit reached" },
+      );
+    });
+
+    test("Prefers the member's own hard limit override", () => {
+      assert.deepStrictEqual(
+        status({
+          email: "a@example.com",
+          spendCents: 5000,
+          hardLimitOverrideDollars: 200,
+        }),
+        { level: "ok" },
+      );
+      assert.strictEqual(
+        getMemberHardLimit(
+          { email: "a@example.com", hardLimitOverrideDollars: 200 },
+          limits,
+        ),
+        200,
+      );
+    });
+
+    test("Ignores spend when no hard limit applies", () => {
+      assert.deepStrictEqual(
+        status(
+          { email: "a@example.com", spendCents: 100000 },
+          { maxRequests: 500 },
+        ),
+        { level: "ok" },
+      );
+    });
+
+    test("Flags members close to or past the request quota", () => {
+      assert.deepStrictEqual(status(members[1]), {
+        level: "near",
+        message: "Approaching fast premium request limit",
+      });
+      assert.deepStrictEqual(
+        status({ email: "a@example.com", fastPremiumRequests: 500 }),
+        { level: "over", message: "Fast premium requests used up" },
+      );
+    });
+
+    test("Reports the more severe of spend and requests", () => {
+      assert.deepStrictEqual(
+        status({
+          email: "a@example.com",
+          fastPremiumRequests: 500,
+          spendCents: 4000,
+        }),
+        { level: "over", message: "Fast premium requests used up" },
+      );
+      assert.deepStrictEqual(
+        status({
+          email: "a@example.com",
+          fastPremiumRequests: 480,
+          spendCents: 4000,
+        }),
+        { level: "near", message: "Approaching spend limit" },
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import {
+  ADDITIONAL_TEAMS_ITEM,
+  getAdditionalTeamPickItems,
+  getTeamPickItems,
+  resolveAdditionalTeamPick,
+  resolveTeamPick,
+} from "../../teamPicker";
+
+suite("Team Picker", function () {
+  const teams = [
+    { id: 7, name: "Platform" },
+    { id: 12, name: "Research" },
+  ];
+
+  test("Lists auto-detection, then every team", () => {
+    const items = getTeamPickItems(teams, "12");
+
+    assert.deepStrictEqual(
+      items.map((item) => [item.action, item.teamId, item.description]),
+      [
+        ["auto", undefined, "Use the first team found"],
+        ["team", 7, "ID 7"],
+        ["team", 12, "ID 12"],
+      ],
+    );
+  });
+
+  test("Marks the selected team", () => {
+    const items = getTeamPickItems(teams, "12");
+
+    assert.deepStrictEqual(
+      items.map((item) => item.detail),
+      [undefined, undefined, "Currently selected"],
+    );
+  });
+
+  test("Marks auto-detection when no team is set", () => {
+    for (const teamId of [undefined, "", "auto"]) {
+      const items = getTeamPickItems(teams, teamId);
+
+      assert.deepStrictEqual(
+        items.map((item) => item.detail),
+        ["Currently selected", undefined, undefined],
+        `teamId ${teamId}`,
+      );
+    }
+  });
+
+  test("Clears the team ID when auto-detection is picked", () => {
+    const [auto] = getTeamPickItems(teams, "12");
+
+    assert.deepStrictEqual(resolveTeamPick(auto), {
+      kind: "primary",
+      teamId: "",
+      name: "auto",
+    });
+  });
+
+  test("Sets the team ID of the picked team", () => {
+    const research = getTeamPickItems(teams, undefined)[2];
+
+    assert.deepStrictEqual(resolveTeamPick(research), {
+      kind: "primary",
+      teamId: "12",
+      name: "Research",
+    });
+  });
+
+  test("Opens the additional teams picker", () => {
+    assert.deepStrictEqual(resolveTeamPick(ADDITIONAL_TEAMS_ITEM), {
+      kind: "additional",
+    });
+  });
+
+  test("Pre-selects the tracked additional teams", () => {
+    const items = getAdditionalTeamPickItems(teams, [12, 99]);
+
+    assert.deepStrictEqual(
+      items.map((item) => [item.teamId, item.picked]),
+      [
+        [7, false],
+        [12, true],
+      ],
+    );
+  });
+
+  test("Tracks the picked additional teams", () => {
+    const items = getAdditionalTeamPickItems(teams, []);
+
+    assert.deepStrictEqual(resolveAdditionalTeamPick(items), {
+      teamIds: [7, 12],
+      message: "Tracking additional teams: Platform, Research",
+    });
+    assert.deepStrictEqual(resolveAdditionalTeamPick([]), {
+      teamIds: [],
+      message: "No additional teams tracked.",
+    });
+  });
+});
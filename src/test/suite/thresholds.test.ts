@@ -0,0 +1,181 @@
+import * as assert from "assert";
+import {
+  AlertThresholds,
+  DEFAULT_ALERT_THRESHOLDS,
+  evaluateUsage,
+} from "../../thresholds";
+
+suite("Alert Threshold Rules", function () {
+  const defaults: AlertThresholds = { ...DEFAULT_ALERT_THRESHOLDS };
+
+  test("Normal state when plenty of requests remain", () => {
+    const result = evaluateUsage(
+      { remainingRequests: 300, totalRequests: 500 },
+      defaults,
+    );
+
+    assert.strictEqual(result.level, "normal");
+    assert.strictEqual(result.icon, "$(zap)");
+    assert.deepStrictEqual(result.warnings, []);
+  });
+
+  test("Warns at the default 10% low-requests threshold", () => {
+    const result = evaluateUsage(
+      { remainingRequests: 50, totalRequests: 500 },
+      defaults,
+    );
+
+    assert.strictEqual(result.level, "warning");
+    assert.strictEqual(
+      result.backgroundColor,
+      "statusBarItem.warningBackground",
+    );
+    assert.deepStrictEqual(result.warnings, ["Low on requests"]);
+  });
+
+  test("Honours an absolute low-requests count", () => {
+    const result = evaluateUsage(
+      { remainingRequests: 100, totalRequests: 500 },
+      { ...defaults, lowRequestsCount: 100 },
+    );
+
+    assert.strictEqual(result.level, "warning");
+  });
+
+  test("Uses spend rules once requests are exhausted", () => {
+    const approaching = evaluateUsage(
+      {
+        remainingRequests: 0,
+        totalRequests: 500,
+        spendCents: 8500,
+        hardLimitDollars: 100,
+      },
+      defaults,
+    );
+    const reached = evaluateUsage(
+      {
+        remainingRequests: 0,
+        totalRequests: 500,
+        spendCents: 10000,
+        hardLimitDollars: 100,
+      },
+      defaults,
+    );
+
+    assert.deepStrictEqual(approaching.warnings, ["Approaching spend limit"]);
+    assert.strictEqual(approaching.level, "warning");
+    assert.deepStrictEqual(reached.warnings, ["Spend limit reached"]);
+    assert.strictEqual(reached.level, "error");
+  });
+
+  test("Honours a dollar spend threshold", () => {
+    const result = evaluateUsage(
+      {
+        remainingRequests: 0,
+        totalRequests: 500,
+        spendCents: 2500,
+        hardLimitDollars: 100,
+      },
+      { ...defaults, spendWarningDollars: 20 },
+    );
+
+    assert.strictEqual(result.level, "warning");
+  });
+
+  test("Warns on projected exhaustion only when the days rule is enabled", () => {
+    const input = {
+      remainingRequests: 200,
+      totalRequests: 500,
+      dailyUsageRate: 50,
+      daysRemaining: 20,
+    };
+
+    const disabled = evaluateUsage(input, defaults);
+    const enabled = evaluateUsage(input, {
+      ...defaults,
+      exhaustionWarningDays: 5,
+    });
+
+    assert.strictEqual(disabled.level, "normal");
+    assert.strictEqual(disabled.projectedDaysToExhaustion, 4);
+    assert.strictEqual(enabled.level, "warning");
+  });
+
+  test("Reports no remaining requests without spend data", () => {
+    const result = evaluateUsage(
+      { remainingRequests: 0, totalRequests: 500 },
+      defaults,
+    );
+
+    assert.strictEqual(result.level, "normal");
+    assert.deepStrictEqual(result.warnings, ["No requests remaining"]);
+  });
+
+  test("Warns when tokens run low", () => {
+    const low = evaluateUsage(
+      {
+        remainingRequests: 300,
+        totalRequests: 500,
+        usedTokens: 950_000,
+        maxTokens: 1_000_000,
+      },
+      defaults,
+    );
+    const exhausted = evaluateUsage(
+      {
+        remainingRequests: 300,
+        totalRequests: 500,
+        usedTokens: 1_000_000,
+        maxTokens: 1_000_000,
+      },
+      defaults,
+    );
+
+    assert.strictEqual(low.level, "warning");
+    assert.deepStrictEqual(low.warnings, ["Low on tokens"]);
+    assert.deepStrictEqual(exhausted.warnings, ["No tokens remaining"]);
+  });
+
+  test("Projects token exhaustion and ignores models without a token limit", () => {
+    const limited = evaluateUsage(
+      {
+        remainingRequests: 300,
+        totalRequests: 500,
+        usedTokens: 400_000,
+        maxTokens: 1_000_000,
+        dailyTokenRate: 100_000,
+        daysRemaining: 20,
+      },
+      { ...defaults, exhaustionWarningDays: 7 },
+    );
+    const unlimited = evaluateUsage(
+      { remainingRequests: 300, totalRequests: 500, usedTokens: 5_000_000 },
+      defaults,
+    );
+
+    assert.strictEqual(limited.projectedDaysToTokenExhaustion, 6);
+    assert.deepStrictEqual(limited.warnings, [
+      "Tokens projected to run out in ~6 days",
+    ]);
+    assert.strictEqual(unlimited.level, "normal");
+    assert.strictEqual(unlimited.projectedDaysToTokenExhaustion, undefined);
+  });
+
+  test("Warns when the forecast puts spend above the budget", () => {
+    const result = evaluateUsage(
+      {
+        remainingRequests: 100,
+        totalRequests: 500,
+        spendCents: 0,
+        hardLimitDollars: 20,
+        projectedSpendCents: 2600,
+      },
+      defaults,
+    );
+
+    assert.strictEqual(result.level, "warning");
+    assert.deepStrictEqual(result.warnings, [
+      "On track to exceed budget (~$26.00 by reset)",
+    ]);
+  });
+});
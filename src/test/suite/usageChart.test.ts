@@ -0,0 +1,146 @@
+import * as assert from "assert";
+import { getBillingCycle } from "../../billingCycle";
+import {
+  escapeHtml,
+  projectExhaustionDate,
+  renderLineChart,
+} from "../../usageChart";
+
+suite("Usage Chart", function () {
+  const startOfMonth = "2025-03-01T00:00:00.000Z";
+  const day = 24 * 3600 * 1000;
+  const cycleStart = Date.parse(startOfMonth);
+  // 10 days into a 31-day cycle
+  const timestamp = cycleStart + 10 * day;
+  const cycle = getBillingCycle(startOfMonth, new Date(timestamp), "UTC");
+  const snapshot = (usedRequests: number, maxRequests = 500) => ({
+    timestamp,
+    usedRequests,
+    maxRequests,
+    startOfMonth,
+  });
+
+  suite("projectExhaustionDate", () => {
+    test("Projects exhaustion at the cycle's average rate", () => {
+      // 40 requests/day leaves 100 requests for 2.5 more days
+      const exhaustion = projectExhaustionDate(snapshot(400), cycle);
+
+      assert.strictEqual(exhaustion?.getTime(), timestamp + 2.5 * day);
+    });
+
+    test("Does not project when nothing was used yet", () => {
+      assert.strictEqual(projectExhaustionDate(snapshot(0), cycle), undefined);
+    });
+
+    test("Does not project when the quota lasts until the reset", () => {
+      // 5 requests/day for the remaining 21 days is well within 450 requests
+      assert.strictEqual(projectExhaustionDate(snapshot(50), cycle), undefined);
+    });
+
+    test("Reports an exhausted quota as of the snapshot", () => {
+      assert.strictEqual(
+        projectExhaustionDate(snapshot(500), cycle)?.getTime(),
+        timestamp,
+      );
+      assert.strictEqual(
+        projectExhaustionDate(snapshot(520), cycle)?.getTime(),
+        timestamp,
+      );
+    });
+
+    test("Does not project from a snapshot taken at the cycle start", () => {
+      assert.strictEqual(
+        projectExhaustionDate(
+          { ...snapshot(10), timestamp: cycleStart },
+          cycle,
+        ),
+        undefined,
+      );
+    });
+  });
+
+  suite("renderLineChart", () => {
+    const xMin = cycle.start.getTime();
+    const xMax = cycle.end.getTime();
+
+    test("Says there is no data for an empty history", () => {
+      const html = renderLineChart([], xMin, xMax, 500, String, "UTC");
+
+      assert.ok(html.includes("No data for this cycle."));
+      assert.ok(!html.includes("<svg"));
+    });
+
+    test("Marks a single data point", () => {
+      const html = renderLineChart(
+        [{ x: timestamp, y: 100 }],
+        xMin,
+        xMax,
+        undefined,
+        String,
+        "UTC",
+      );
+
+      assert.ok(html.includes('<path class="series" d="M'));
+      assert.ok(html.includes('<circle class="point"'));
+    });
+
+    test("Draws a line through every point, scaled to the limit", () => {
+      const html = renderLineChart(
+        [
+          { x: xMin, y: 0 },
+          { x: xMax, y: 250 },
+        ],
+        xMin,
+        xMax,
+        500,
+        (v) => `${v} req`,
+        "UTC",
+      );
+
+      // From the bottom-left corner to halfway up the right edge
+      assert.ok(html.includes('d="M60.0,176.0 L630.0,93.0"'));
+      assert.ok(html.includes('<line class="limit"'));
+      assert.ok(html.includes(">500 req</text>"));
+      assert.ok(html.includes(">2025-03-01</text>"));
+      assert.ok(html.includes(">2025-04-01</text>"));
+      assert.ok(!html.includes('<circle class="point"'));
+    });
+
+    test("Does not divide by zero when every value is zero", () => {
+      const html = renderLineChart(
+        [
+          { x: xMin, y: 0 },
+          { x: xMax, y: 0 },
+        ],
+        xMin,
+        xMax,
+        undefined,
+        String,
+        "UTC",
+      );
+
+      assert.ok(!html.includes("NaN"));
+      assert.ok(!html.includes('<line class="limit"'));
+    });
+
+    test("Escapes axis labels", () => {
+      const html = renderLineChart(
+        [{ x: xMin, y: 1 }],
+        xMin,
+        xMax,
+        undefined,
+        () => "<b>",
+        "UTC",
+      );
+
+      assert.ok(html.includes("&lt;b&gt;"));
+    });
+  });
+
+  test("Escapes HTML special characters", () => {
+    assert.strictEqual(
+      escapeHtml(`<a href="x">Tom & Jerry's</a>`),
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;",
+    );
+  });
+});
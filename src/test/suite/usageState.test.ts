@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import { getFreshUsage, getUsageState, setUsageState } from "../../usageState";
+import { NetworkError } from "../../errors";
+
+suite("Usage State", function () {
+  const usage = {
+    remainingRequests: 370,
+    totalRequests: 500,
+    startOfMonth: "2025-09-24T00:00:00.000Z",
+    teamSummaries: [],
+    modelBuckets: [],
+  };
+
+  test("Holds the latest state", () => {
+    setUsageState({ kind: "warning", warning: "Set Cookie" });
+
+    assert.deepStrictEqual(getUsageState(), {
+      kind: "warning",
+      warning: "Set Cookie",
+    });
+  });
+
+  test("Offers only fresh usage for a digest", () => {
+    assert.strictEqual(
+      getFreshUsage({ kind: "usage", usage, asOf: 1000 }),
+      usage,
+    );
+    assert.strictEqual(
+      getFreshUsage({
+        kind: "usage",
+        usage,
+        asOf: 1000,
+        stale: { error: new NetworkError("offline") },
+      }),
+      undefined,
+    );
+    assert.strictEqual(getFreshUsage({ kind: "loading" }), undefined);
+    assert.strictEqual(
+      getFreshUsage({ kind: "warning", warning: "Set Cookie" }),
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import { SchemaValidationError } from "../../errors";
+import { ModelUsage } from "../../models";
+import {
+  spendDataSchema,
+  teamsSchema,
+  userUsageSchema,
+  validate,
+} from "../../validation";
+
+suite("Response Validation", function () {
+  const gpt4 = {
+    numRequests: 12,
+    numRequestsTotal: 40,
+    numTokens: 5000,
+    maxRequestUsage: 500,
+    maxTokenUsage: null,
+  };
+
+  /**
+   * Runs a validation expected to fail and returns the error.
+   */
+  function expectFailure(fn: () => unknown): SchemaValidationError {
+    try {
+      fn();
+    } catch (error) {
+      assert.ok(error instanceof SchemaValidationError);
+      return error;
+    }
+    assert.fail("Expected validation to fail");
+  }
+
+  test("Accepts a valid usage response with any models", () => {
+    const response = {
+      "gpt-4": gpt4,
+      startOfMonth: "2025-01-15T00:00:00.000Z",
+      "claude-4-sonnet": { ...gpt4, numRequests: 3 },
+    };
+
+    const usage = validate(userUsageSchema, response, "usage");
+
+    assert.strictEqual((usage["gpt-4"] as ModelUsage).numRequests, 12);
+    assert.deepStrictEqual(usage, response);
+  });
+
+  test("Names the failing field path", () => {
+    const error = expectFailure(() =>
+      validate(
+        userUsageSchema,
+        {
+          "gpt-4": { ...gpt4, maxRequestUsage: "500" },
+          startOfMonth: "2025-01-15",
+        },
+        "usage",
+      ),
+    );
+
+    assert.strictEqual(error.path, 'usage["gpt-4"].maxRequestUsage');
+    assert.strictEqual(error.expected, "number");
+    assert.strictEqual(error.actual, 'string "500"');
+    assert.strictEqual(error.kind, "formatChanged");
+  });
+
+  test("Reports missing fields and array indexes", () => {
+    const missing = expectFailure(() =>
+      validate(
+        teamsSchema,
+        { teams: [{ id: 1, name: "A" }, { id: 2 }] },
+        "teams",
+      ),
+    );
+    assert.strictEqual(missing.path, "teams.teams[1].name");
+    assert.strictEqual(missing.actual, "undefined");
+
+    const notArray = expectFailure(() =>
+      validate(spendDataSchema, { teamMemberSpend: null }, "spend"),
+    );
+    assert.strictEqual(notArray.path, "spend.teamMemberSpend");
+  });
+
+  test("Requires at least one model bucket", () => {
+    const error = expectFailure(() =>
+      validate(userUsageSchema, { startOfMonth: "2025-01-15" }, "usage"),
+    );
+
+    assert.strictEqual(error.path, "usage");
+    assert.strictEqual(error.expected, "model buckets");
+  });
+
+  test("Rejects unparseable dates", () => {
+    const error = expectFailure(() =>
+      validate(
+        userUsageSchema,
+        { "gpt-4": gpt4, startOfMonth: "next month" },
+        "usage",
+      ),
+    );
+
+    assert.strictEqual(error.path, "usage.startOfMonth");
+  });
+});
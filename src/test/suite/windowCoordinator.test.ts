@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FOCUS_STALE_MS,
+  LEADER_STALE_MS,
+  acquireLock,
+  isFocusCurrent,
+  readOtherWindowFocus,
+  shouldTakeOver,
+  stampFocus,
+  startCoordination,
+  stopCoordination,
+} from "../../windowCoordinator";
+
+suite("Window Coordinator", function () {
+  const now = Date.parse("2025-09-26T09:00:00Z");
+  let dir: string;
+  let lockPath: string;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cursor-usage-"));
+    lockPath = path.join(dir, "leader.lock");
+  });
+
+  teardown(() => {
+    stopCoordination();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("Takes a free, own or stale lock only", () => {
+    assert.strictEqual(shouldTakeOver(undefined, "a", now), true);
+    assert.strictEqual(
+      shouldTakeOver({ windowId: "a", heartbeat: now - 5000 }, "a", now),
+      true,
+    );
+    assert.strictEqual(
+      shouldTakeOver({ windowId: "b", heartbeat: now - 5000 }, "a", now),
+      false,
+    );
+    assert.strictEqual(
+      shouldTakeOver(
+        { windowId: "b", heartbeat: now - LEADER_STALE_MS - 1 },
+        "a",
+        now,
+      ),
+      true,
+    );
+  });
+
+  test("Lets only one window hold the lock", async () => {
+    assert.strictEqual(await acquireLock(lockPath, "a", now), true);
+    assert.strictEqual(await acquireLock(lockPath, "b", now + 1000), false);
+    assert.strictEqual(await acquireLock(lockPath, "a", now + 10000), true);
+
+    const lock = JSON.parse(fs.readFileSync(lockPath, "utf8"));
+    assert.deepStrictEqual(lock, { windowId: "a", heartbeat: now + 10000 });
+  });
+
+  test("Hands the lock over once the leader stops renewing it", async () => {
+    await acquireLock(lockPath, "a", now);
+
+    assert.strictEqual(
+      await acquireLock(lockPath, "b", now + LEADER_STALE_MS + 1),
+      true,
+    );
+    assert.strictEqual(
+      await acquireLock(lockPath, "a", now + LEADER_STALE_MS + 2),
+      false,
+    );
+  });
+
+  test("Replaces an unreadable lock file", async () => {
+    fs.writeFileSync(lockPath, "not json");
+
+    assert.strictEqual(await acquireLock(lockPath, "a", now), true);
+  });
+
+  test("Shares when another window was last focused", async () => {
+    const focusPath = path.join(dir, "focus.json");
+    assert.strictEqual(await readOtherWindowFocus(focusPath, "a"), undefined);
+
+    await stampFocus(focusPath, "b", now);
+
+    assert.strictEqual(await readOtherWindowFocus(focusPath, "a"), now);
+    assert.strictEqual(await readOtherWindowFocus(focusPath, "b"), undefined);
+  });
+
+  test("Counts a window as focused until its stamp goes stale", () => {
+    assert.strictEqual(isFocusCurrent(undefined, now), false);
+    assert.strictEqual(isFocusCurrent(now - FOCUS_STALE_MS, now), true);
+    assert.strictEqual(isFocusCurrent(now - FOCUS_STALE_MS - 1, now), false);
+  });
+
+  test("Polls as focused while another window has focus", async () => {
+    await stampFocus(path.join(dir, "focus.json"), "other", Date.now());
+
+    const anyWindowFocused = await new Promise<boolean>((resolve) =>
+      startCoordination({ globalStorageUri: { fsPath: dir } } as any, {
+        onLeadershipChange: () => undefined,
+        onSharedState: () => undefined,
+        onFocusChange: resolve,
+      }),
+    );
+
+    assert.strictEqual(anyWindowFocused, true);
+  });
+});
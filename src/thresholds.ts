@@ -0,0 +1,225 @@
+/**
+ * User-configurable alert thresholds. A value of 0 disables the
+ * absolute-count, dollar and days rules.
+ */
+export interface AlertThresholds {
+  lowRequestsPercent: number; // warn when remaining requests ≤ this % of the total
+  lowRequestsCount: number; // warn when remaining requests ≤ this count
+  spendWarningPercent: number; // warn when spend ≥ this % of the hard limit
+  spendWarningDollars: number; // warn when spend ≥ this many dollars
+  exhaustionWarningDays: number; // warn when requests or tokens are projected to run out within this many days
+  lowTokensPercent: number; // warn when remaining tokens ≤ this % of the token limit
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  lowRequestsPercent: 10,
+  lowRequestsCount: 0,
+  spendWarningPercent: 80,
+  spendWarningDollars: 0,
+  exhaustionWarningDays: 0,
+  lowTokensPercent: 10,
+};
+
+export type AlertLevel = "normal" | "warning" | "error";
+
+/**
+ * The usage figures a rule evaluation is based on.
+ */
+export interface UsageEvaluationInput {
+  remainingRequests: number;
+  totalRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  dailyUsageRate?: number; // average requests per day in the current cycle
+  daysRemaining?: number; // days until the cycle resets
+  usedTokens?: number;
+  maxTokens?: number; // token limit of the model bucket, if it has one
+  dailyTokenRate?: number; // average tokens per day in the current cycle
+  projectedSpendCents?: number; // forecast spend at the end of the cycle
+}
+
+/**
+ * Result of evaluating the rules: the overall level, how to present it, and
+ * the warnings to list in the tooltip.
+ */
+export interface UsageEvaluation {
+  level: AlertLevel;
+  icon: string;
+  backgroundColor?: string; // theme color id
+  warnings: string[];
+  projectedDaysToExhaustion?: number; // only set when requests run out before the reset
+  projectedDaysToTokenExhaustion?: number; // only set when tokens run out before the reset
+}
+
+/**
+ * Evaluates usage against the thresholds. While requests remain the level is
+ * driven by request rules; once they are exhausted it is driven by spend rules.
+ * Token rules apply on top when the model bucket has a token limit, and the
+ * budget rule when the forecast puts end-of-cycle spend above the hard limit.
+ * @param input Current usage figures
+ * @param thresholds Thresholds to apply
+ * @returns The evaluation used for the status bar colour, icon and tooltip warnings
+ */
+export function evaluateUsage(
+  input: UsageEvaluationInput,
+  thresholds: AlertThresholds,
+): UsageEvaluation {
+  const { remainingRequests, totalRequests, spendCents, hardLimitDollars } =
+    input;
+  const warnings: string[] = [];
+  let level: AlertLevel = "normal";
+
+  const projectedDaysToExhaustion = projectDaysToExhaustion(
+    remainingRequests,
+    input.dailyUsageRate,
+    input.daysRemaining,
+  );
+
+  if (remainingRequests > 0) {
+    if (isLowOnRequests(remainingRequests, totalRequests, thresholds)) {
+      level = "warning";
+      warnings.push("Low on requests");
+    } else if (
+      thresholds.exhaustionWarningDays > 0 &&
+      projectedDaysToExhaustion !== undefined &&
+      projectedDaysToExhaustion <= thresholds.exhaustionWarningDays
+    ) {
+      level = "warning";
+      warnings.push(
+        `Requests projected to run out in ~${projectedDaysToExhaustion} days`,
+      );
+    }
+  } else if (spendCents !== undefined && hardLimitDollars !== undefined) {
+    const spendDollars = spendCents / 100;
+    if (spendDollars >= hardLimitDollars) {
+      level = "error";
+      warnings.push("Spend limit reached");
+    } else if (
+      isCloseToSpendLimit(spendDollars, hardLimitDollars, thresholds)
+    ) {
+      level = "warning";
+      warnings.push("Approaching spend limit");
+    }
+  } else {
+    warnings.push("No requests remaining");
+  }
+
+  // Budget rule: the forecast puts spend above the hard limit before the reset
+  if (
+    input.projectedSpendCents !== undefined &&
+    hardLimitDollars !== undefined &&
+    input.projectedSpendCents > hardLimitDollars * 100 &&
+    (spendCents === undefined || spendCents < hardLimitDollars * 100)
+  ) {
+    warnings.push(
+      `On track to exceed budget (~$${(input.projectedSpendCents / 100).toFixed(2)} by reset)`,
+    );
+    level = level === "error" ? level : "warning";
+  }
+
+  // Token rules
+  let projectedDaysToTokenExhaustion: number | undefined;
+  if (
+    input.usedTokens !== undefined &&
+    input.maxTokens !== undefined &&
+    input.maxTokens > 0
+  ) {
+    const remainingTokens = input.maxTokens - input.usedTokens;
+    projectedDaysToTokenExhaustion = projectDaysToExhaustion(
+      remainingTokens,
+      input.dailyTokenRate,
+      input.daysRemaining,
+    );
+
+    if (remainingTokens <= 0) {
+      warnings.push("No tokens remaining");
+      level = level === "error" ? level : "warning";
+    } else if (
+      remainingTokens <=
+      input.maxTokens * (thresholds.lowTokensPercent / 100)
+    ) {
+      warnings.push("Low on tokens");
+      level = level === "error" ? level : "warning";
+    } else if (
+      thresholds.exhaustionWarningDays > 0 &&
+      projectedDaysToTokenExhaustion !== undefined &&
+      projectedDaysToTokenExhaustion <= thresholds.exhaustionWarningDays
+    ) {
+      warnings.push(
+        `Tokens projected to run out in ~${projectedDaysToTokenExhaustion} days`,
+      );
+      level = level === "error" ? level : "warning";
+    }
+  }
+
+  return {
+    level,
+    icon:
+      level === "error"
+        ? "$(error)"
+        : level === "warning"
+          ? "$(warning)"
+          : "$(zap)",
+    backgroundColor:
+      level === "error"
+        ? "statusBarItem.errorBackground"
+        : level === "warning"
+          ? "statusBarItem.warningBackground"
+          : undefined,
+    warnings,
+    projectedDaysToExhaustion,
+    projectedDaysToTokenExhaustion,
+  };
+}
+
+/**
+ * Projects in how many days a quota runs out at the current daily rate.
+ * @param remaining What is left of the quota (requests or tokens)
+ * @param dailyRate Average consumption per day
+ * @param daysRemaining Days until the cycle resets
+ * @returns The number of days, or undefined if the quota lasts until the reset
+ */
+function projectDaysToExhaustion(
+  remaining: number,
+  dailyRate: number | undefined,
+  daysRemaining: number | undefined,
+): number | undefined {
+  if (remaining <= 0 || !dailyRate || dailyRate <= 0) {
+    return undefined;
+  }
+  const estimatedDaysLeft = Math.ceil(remaining / dailyRate);
+  return daysRemaining !== undefined && estimatedDaysLeft < daysRemaining
+    ? estimatedDaysLeft
+    : undefined;
+}
+
+/**
+ * Checks the low-requests rules (percentage and absolute count).
+ */
+export function isLowOnRequests(
+  remainingRequests: number,
+  totalRequests: number,
+  thresholds: AlertThresholds,
+): boolean {
+  const percentLimit = totalRequests * (thresholds.lowRequestsPercent / 100);
+  return (
+    remainingRequests <= percentLimit ||
+    (thresholds.lowRequestsCount > 0 &&
+      remainingRequests <= thresholds.lowRequestsCount)
+  );
+}
+
+/**
+ * Checks the spend rules (percentage of the hard limit and absolute dollars).
+ */
+export function isCloseToSpendLimit(
+  spendDollars: number,
+  hardLimitDollars: number,
+  thresholds: AlertThresholds,
+): boolean {
+  return (
+    spendDollars / hardLimitDollars >= thresholds.spendWarningPercent / 100 ||
+    (thresholds.spendWarningDollars > 0 &&
+      spendDollars >= thresholds.spendWarningDollars)
+  );
+}
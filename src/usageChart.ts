@@ -0,0 +1,110 @@
+import { UsageSnapshot } from "./history";
+import { BillingCycle, formatCycleDate } from "./billingCycle";
+
+const DAY_MS = 1000 * 3600 * 24;
+
+/**
+ * A point on a line chart. `x` is an epoch timestamp, `y` the plotted value.
+ */
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projects when the included requests run out at the cycle's average daily rate.
+ * @param snapshot The latest snapshot of the cycle
+ * @param billingCycle The billing cycle the snapshot belongs to
+ * @returns The projected date (the snapshot's own time if already exhausted),
+ * or undefined if nothing was used yet or the quota lasts until the reset
+ */
+export function projectExhaustionDate(
+  snapshot: UsageSnapshot,
+  billingCycle: BillingCycle,
+): Date | undefined {
+  const remaining = snapshot.maxRequests - snapshot.usedRequests;
+  if (remaining <= 0) {
+    return new Date(snapshot.timestamp);
+  }
+  const daysElapsed =
+    (snapshot.timestamp - billingCycle.start.getTime()) / DAY_MS;
+  if (daysElapsed <= 0 || snapshot.usedRequests <= 0) {
+    return undefined;
+  }
+  const dailyRate = snapshot.usedRequests / daysElapsed;
+  const exhaustion = new Date(
+    snapshot.timestamp + (remaining / dailyRate) * DAY_MS,
+  );
+  return exhaustion < billingCycle.end ? exhaustion : undefined;
+}
+
+/**
+ * Renders a simple SVG line chart spanning the billing cycle.
+ * @param points Data points to plot, oldest first
+ * @param xMin Start of the x axis (cycle start)
+ * @param xMax End of the x axis (cycle end)
+ * @param limit Optional limit drawn as a dashed horizontal line
+ * @param formatValue Formats y-axis labels
+ * @param timeZone Timezone of the x-axis dates (optional, defaults to the system timezone)
+ */
+export function renderLineChart(
+  points: ChartPoint[],
+  xMin: number,
+  xMax: number,
+  limit: number | undefined,
+  formatValue: (value: number) => string,
+  timeZone?: string,
+): string {
+  if (points.length === 0) {
+    return `<p class="muted">No data for this cycle.</p>`;
+  }
+
+  const width = 640;
+  const height = 200;
+  const padding = { top: 10, right: 10, bottom: 24, left: 60 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const yMax = Math.max(limit ?? 0, ...points.map((p) => p.y), 1);
+  const scaleX = (x: number) =>
+    padding.left + ((x - xMin) / Math.max(1, xMax - xMin)) * plotWidth;
+  const scaleY = (y: number) =>
+    padding.top + plotHeight - (y / yMax) * plotHeight;
+
+  const path = points
+    .map(
+      (p, i) =>
+        `${i === 0 ? "M" : "L"}${scaleX(p.x).toFixed(1)},${scaleY(p.y).toFixed(1)}`,
+    )
+    .join(" ");
+
+  let svg = `<svg viewBox="0 0 ${width} ${height}" role="img">`;
+  svg += `<line class="axis" x1="${padding.left}" y1="${padding.top + plotHeight}" x2="${width - padding.right}" y2="${padding.top + plotHeight}"/>`;
+  svg += `<line class="axis" x1="${padding.left}" y1="${padding.top}" x2="${padding.left}" y2="${padding.top + plotHeight}"/>`;
+  svg += `<text x="${padding.left - 6}" y="${padding.top + 10}" text-anchor="end">${escapeHtml(formatValue(yMax))}</text>`;
+  svg += `<text x="${padding.left - 6}" y="${padding.top + plotHeight}" text-anchor="end">${escapeHtml(formatValue(0))}</text>`;
+  svg += `<text x="${padding.left}" y="${height - 6}">${escapeHtml(formatCycleDate(new Date(xMin), timeZone))}</text>`;
+  svg += `<text x="${width - padding.right}" y="${height - 6}" text-anchor="end">${escapeHtml(formatCycleDate(new Date(xMax), timeZone))}</text>`;
+  if (limit !== undefined) {
+    svg += `<line class="limit" x1="${padding.left}" y1="${scaleY(limit).toFixed(1)}" x2="${width - padding.right}" y2="${scaleY(limit).toFixed(1)}"/>`;
+  }
+  svg += `<path class="series" d="${path}"/>`;
+  if (points.length === 1) {
+    // A path through a single point draws nothing, so mark the point itself
+    svg += `<circle class="point" cx="${scaleX(points[0].x).toFixed(1)}" cy="${scaleY(points[0].y).toFixed(1)}" r="3"/>`;
+  }
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Escapes text for safe inclusion in HTML.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
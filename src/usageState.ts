@@ -0,0 +1,54 @@
+import { CursorApiError } from "./errors";
+import { CircuitStatus } from "./circuitBreaker";
+import { SharedUsage } from "./windowCoordinator";
+
+/**
+ * Why usage is shown as stale: the last known usage, kept while refreshes fail.
+ */
+export interface StaleReason {
+  error?: CursorApiError; // why it could not be refreshed since
+  circuit?: CircuitStatus; // set while polling is paused
+}
+
+/**
+ * What the extension knows about usage right now, as data. Refreshes (and the
+ * state other windows publish) produce it; the status bar and notifications
+ * are both rendered from it.
+ */
+export type UsageState =
+  | { kind: "loading" }
+  | {
+      kind: "usage";
+      usage: SharedUsage;
+      asOf: number; // epoch milliseconds of the refresh the usage comes from
+      stale?: StaleReason;
+    }
+  | { kind: "error"; error: CursorApiError }
+  | { kind: "paused"; circuit: CircuitStatus }
+  | { kind: "warning"; warning: string }; // setup is incomplete, e.g. "Set Cookie"
+
+let current: UsageState = { kind: "loading" };
+
+/**
+ * Returns the current usage state.
+ */
+export function getUsageState(): UsageState {
+  return current;
+}
+
+/**
+ * Replaces the current usage state.
+ * @param state The new state
+ */
+export function setUsageState(state: UsageState): void {
+  current = state;
+}
+
+/**
+ * Returns the usage a digest can report: fresh usage only, never an error,
+ * a setup prompt or usage that is stale.
+ * @param state The state to check
+ */
+export function getFreshUsage(state: UsageState): SharedUsage | undefined {
+  return state.kind === "usage" && !state.stale ? state.usage : undefined;
+}
@@ -0,0 +1,205 @@
+import { SchemaValidationError } from "./errors";
+import {
+  ModelUsage,
+  SpendData,
+  Team,
+  TeamDetails,
+  TeamHardLimit,
+  TeamMemberSpend,
+  TeamsResponse,
+  UserMeResponse,
+  UserUsageResponse,
+} from "./models";
+
+/**
+ * Checks that a value has the expected shape and returns it typed.
+ * Throws a SchemaValidationError naming the offending field path otherwise.
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+/**
+ * Describes a value for error messages, e.g. `string "abc"` or `null`.
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return `string ${JSON.stringify(value.slice(0, 40))}`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+/**
+ * Builds a validator for a primitive type.
+ */
+function primitive<T>(
+  expected: string,
+  check: (value: unknown) => boolean,
+): Validator<T> {
+  return (value, path) => {
+    if (!check(value)) {
+      throw new SchemaValidationError(path, expected, describe(value));
+    }
+    return value as T;
+  };
+}
+
+export const string = primitive<string>(
+  "string",
+  (value) => typeof value === "string",
+);
+
+export const number = primitive<number>(
+  "number",
+  (value) => typeof value === "number" && Number.isFinite(value),
+);
+
+export const boolean = primitive<boolean>(
+  "boolean",
+  (value) => typeof value === "boolean",
+);
+
+/** A string holding a parseable date, e.g. an ISO 8601 timestamp. */
+export const dateString = primitive<string>(
+  "date string",
+  (value) => typeof value === "string" && !isNaN(Date.parse(value)),
+);
+
+/**
+ * Accepts null as well as values matching `validator`.
+ */
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (value === null ? null : validator(value, path));
+}
+
+/**
+ * Accepts a missing (undefined) field as well as values matching `validator`.
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) =>
+    value === undefined ? undefined : validator(value, path);
+}
+
+/**
+ * Validates every element of an array.
+ */
+export function array<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaValidationError(path, "array", describe(value));
+    }
+    value.forEach((item, index) => validator(item, `${path}[${index}]`));
+    return value as T[];
+  };
+}
+
+/**
+ * Validates the listed fields of an object. Fields that are not listed are kept
+ * as they are, so additions on Cursor's side don't break the extension.
+ */
+export function object<T>(shape: {
+  [K in keyof T]-?: Validator<T[K]>;
+}): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaValidationError(path, "object", describe(value));
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const field = /^[A-Za-z_$][\w$]*$/.test(key)
+        ? `${path}.${key}`
+        : `${path}[${JSON.stringify(key)}]`;
+      shape[key](record[key], field);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Validates an API response body.
+ * @param validator The schema of the response
+ * @param value The parsed JSON body
+ * @param root Name of the root in field paths, e.g. the endpoint
+ * @throws {SchemaValidationError} If the body does not match the schema
+ */
+export function validate<T>(
+  validator: Validator<T>,
+  value: unknown,
+  root: string,
+): T {
+  return validator(value, root);
+}
+
+// Schemas of the Cursor API responses. Fields the extension reads are required;
+// fields it doesn't use are only type-checked when present.
+
+const modelUsage = object<ModelUsage>({
+  numRequests: number,
+  numRequestsTotal: number,
+  numTokens: number,
+  maxRequestUsage: nullable(number),
+  maxTokenUsage: nullable(number),
+});
+
+export const userMeSchema = object<Partial<UserMeResponse>>({
+  email: string,
+  sub: string,
+  email_verified: optional(boolean),
+  name: optional(string),
+  updated_at: optional(string),
+  picture: optional(nullable(string)),
+}) as Validator<UserMeResponse>;
+
+/**
+ * The usage response: startOfMonth plus one bucket per model. Every object
+ * field is validated as a bucket, and at least one bucket is required.
+ */
+export const userUsageSchema: Validator<UserUsageResponse> = (value, path) => {
+  const usage = object<{ startOfMonth: string }>({
+    startOfMonth: dateString,
+  })(value, path) as UserUsageResponse;
+
+  const models = Object.keys(usage).filter(
+    (key) => typeof usage[key] === "object" && usage[key] !== null,
+  );
+  if (models.length === 0) {
+    throw new SchemaValidationError(path, "model buckets", "none");
+  }
+  models.forEach((model) =>
+    modelUsage(usage[model], `${path}[${JSON.stringify(model)}]`),
+  );
+  return usage;
+};
+
+export const teamsSchema = object<TeamsResponse>({
+  teams: array(object<Team>({ id: number, name: string })),
+});
+
+export const teamDetailsSchema = object<TeamDetails>({
+  userId: number,
+});
+
+export const teamHardLimitSchema = object<TeamHardLimit>({
+  hardLimit: optional(number),
+});
+
+export const spendDataSchema = object<SpendData>({
+  teamMemberSpend: array(
+    object<TeamMemberSpend>({
+      email: string,
+      fastPremiumRequests: optional(number),
+      userId: optional(number),
+      spendCents: optional(number),
+      hardLimitOverrideDollars: optional(number),
+      name: optional(string),
+      role: optional(string),
+    }),
+  ),
+});
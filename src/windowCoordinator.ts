@@ -0,0 +1,409 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { ApiErrorKind } from "./errors";
+import { Forecast } from "./forecast";
+import { ModelBucket } from "./modelUsage";
+import { TeamUsageSummary } from "./statusBar";
+import * as logger from "./logger";
+
+/**
+ * Contents of the lock file held by the window that polls the API.
+ */
+export interface LeaderLock {
+  windowId: string;
+  heartbeat: number; // epoch milliseconds of the holder's last renewal
+}
+
+/**
+ * The figures behind a successful status bar update.
+ */
+export interface SharedUsage {
+  remainingRequests: number;
+  totalRequests: number;
+  spendCents?: number;
+  hardLimitDollars?: number;
+  startOfMonth: string;
+  teamSummaries: TeamUsageSummary[];
+  modelBuckets: ModelBucket[];
+  statusBarModel?: string;
+  forecast?: Forecast;
+}
+
+/**
+ * What a window last showed in its status bar, published so every other
+ * window can show the same without calling the API itself.
+ * Exactly one of usage, error and warning is set.
+ */
+export interface SharedUsageState {
+  windowId: string; // window that published the state
+  timestamp: number; // epoch milliseconds
+  usage?: SharedUsage;
+  error?: { kind: ApiErrorKind; message: string; statusCode?: number };
+  warning?: string;
+}
+
+/**
+ * Callbacks through which the coordinator drives the extension.
+ */
+export interface CoordinatorHandlers {
+  onLeadershipChange(isLeader: boolean): void;
+  onSharedState(state: SharedUsageState): void;
+  onFocusChange(anyWindowFocused: boolean): void;
+}
+
+/**
+ * Contents of the focus file, stamped by whichever window has focus.
+ */
+export interface FocusStamp {
+  windowId: string;
+  focusedAt: number; // epoch milliseconds the window was last seen focused
+}
+
+const LOCK_FILE_NAME = "leader.lock";
+const SHARED_STATE_FILE_NAME = "shared-state.json";
+const FOCUS_FILE_NAME = "focus.json";
+export const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+export const LEADER_STALE_MS = 30 * 1000; // a leader that missed this many heartbeats is gone
+export const FOCUS_STALE_MS = 30 * 1000; // a focused window restamps every heartbeat, so an older stamp means it lost focus
+
+const windowId = crypto.randomBytes(8).toString("hex");
+let storageDir: string | undefined;
+let handlers: CoordinatorHandlers | undefined;
+let heartbeatTimer: NodeJS.Timeout | undefined;
+let leader = false;
+let lastSharedState: SharedUsageState | undefined;
+let lastSharedStateMtime = 0;
+let focused = false;
+let otherWindowFocusedAt: number | undefined;
+let anyWindowFocused: boolean | undefined; // as last reported to onFocusChange
+
+/**
+ * Decides whether a window may take the lock: when nobody holds it, when it
+ * already holds it, or when the holder stopped renewing its heartbeat.
+ * @param lock The current lock, or undefined if there is none
+ * @param id The window asking
+ * @param now Current time in milliseconds
+ * @param staleMs How old a heartbeat may get before the lock is up for grabs
+ */
+export function shouldTakeOver(
+  lock: LeaderLock | undefined,
+  id: string,
+  now: number,
+  staleMs: number = LEADER_STALE_MS,
+): boolean {
+  return !lock || lock.windowId === id || now - lock.heartbeat > staleMs;
+}
+
+/**
+ * Reads the lock file.
+ * @param lockPath Path of the lock file
+ * @returns The lock, undefined if there is no lock file, or null if it cannot be read
+ */
+async function readLock(
+  lockPath: string,
+): Promise<LeaderLock | null | undefined> {
+  try {
+    const lock = JSON.parse(await fs.promises.readFile(lockPath, "utf8"));
+    return typeof lock?.windowId === "string" &&
+      typeof lock.heartbeat === "number"
+      ? lock
+      : null;
+  } catch (error: any) {
+    return error.code === "ENOENT" ? undefined : null;
+  }
+}
+
+/**
+ * Takes or renews the lock for a window. A missing lock is created exclusively;
+ * an existing one is replaced through a temporary file and read back, so of two
+ * windows replacing a stale lock at once only the last writer stays leader.
+ * @param lockPath Path of the lock file
+ * @param id The window asking
+ * @param now Current time in milliseconds
+ * @returns Whether the window holds the lock afterwards
+ */
+export async function acquireLock(
+  lockPath: string,
+  id: string,
+  now: number,
+): Promise<boolean> {
+  const lock = await readLock(lockPath);
+  if (!shouldTakeOver(lock ?? undefined, id, now)) {
+    return false;
+  }
+
+  const contents = JSON.stringify({ windowId: id, heartbeat: now });
+  try {
+    if (lock !== undefined) {
+      const tempPath = `${lockPath}.${id}.tmp`;
+      await fs.promises.writeFile(tempPath, contents, "utf8");
+      await fs.promises.rename(tempPath, lockPath);
+    } else {
+      await fs.promises.writeFile(lockPath, contents, {
+        encoding: "utf8",
+        flag: "wx",
+      });
+    }
+  } catch (error: any) {
+    if (error.code !== "EEXIST") {
+      logger.warn(`Could not write the leader lock: ${error.message}`);
+    }
+    return false;
+  }
+  return (await readLock(lockPath))?.windowId === id;
+}
+
+/**
+ * Checks whether a focus stamp is recent enough that its window still has focus.
+ * @param focusedAt When the window was last seen focused, if ever
+ * @param now Current time in milliseconds
+ * @param staleMs How old a stamp may get before the window counts as unfocused
+ */
+export function isFocusCurrent(
+  focusedAt: number | undefined,
+  now: number,
+  staleMs: number = FOCUS_STALE_MS,
+): boolean {
+  return focusedAt !== undefined && now - focusedAt <= staleMs;
+}
+
+/**
+ * Stamps the focus file for a window that has focus.
+ * @param focusPath Path of the focus file
+ * @param id The focused window
+ * @param now Current time in milliseconds
+ */
+export async function stampFocus(
+  focusPath: string,
+  id: string,
+  now: number,
+): Promise<void> {
+  const stamp: FocusStamp = { windowId: id, focusedAt: now };
+  const tempPath = `${focusPath}.${id}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(stamp), "utf8");
+  await fs.promises.rename(tempPath, focusPath);
+}
+
+/**
+ * Reads when another window was last seen focused.
+ * @param focusPath Path of the focus file
+ * @param id The window asking; its own stamp is ignored
+ * @returns The time of the stamp, or undefined if another window never stamped it
+ */
+export async function readOtherWindowFocus(
+  focusPath: string,
+  id: string,
+): Promise<number | undefined> {
+  try {
+    const stamp = JSON.parse(await fs.promises.readFile(focusPath, "utf8"));
+    return typeof stamp?.focusedAt === "number" && stamp.windowId !== id
+      ? stamp.focusedAt
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Starts electing the window that polls the API and sends notifications.
+ * Every window renews or contests the lock each heartbeat, and picks up the
+ * state other windows publish.
+ * @param context VS Code extension context
+ * @param callbacks Called when this window gains or loses leadership, and
+ *   when another window publishes new state
+ */
+export function startCoordination(
+  context: vscode.ExtensionContext,
+  callbacks: CoordinatorHandlers,
+): void {
+  storageDir = context.globalStorageUri.fsPath;
+  handlers = callbacks;
+  stopHeartbeat();
+  heartbeatTimer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+  heartbeat();
+}
+
+/**
+ * Stops coordinating and hands the lock back so another window can take over
+ * at its next heartbeat instead of waiting for the lock to go stale.
+ */
+export function stopCoordination(): void {
+  stopHeartbeat();
+  if (leader && storageDir) {
+    try {
+      fs.unlinkSync(path.join(storageDir, LOCK_FILE_NAME));
+    } catch {
+      // Already gone, or taken over by another window
+    }
+  }
+  leader = false;
+  handlers = undefined;
+  anyWindowFocused = undefined;
+}
+
+/**
+ * Stops the heartbeat timer, if running.
+ */
+function stopHeartbeat(): void {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = undefined;
+  }
+}
+
+/**
+ * Renews or contests the lock and applies state published since the last heartbeat.
+ */
+async function heartbeat(): Promise<void> {
+  const dir = storageDir;
+  if (!dir) {
+    return;
+  }
+
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const isLeader = await acquireLock(
+      path.join(dir, LOCK_FILE_NAME),
+      windowId,
+      Date.now(),
+    );
+    if (isLeader !== leader) {
+      leader = isLeader;
+      logger.info(
+        `This window is ${isLeader ? "now polling for usage" : "following the window that polls for usage"}`,
+      );
+      handlers?.onLeadershipChange(isLeader);
+    }
+    await readSharedState(dir);
+
+    const focusPath = path.join(dir, FOCUS_FILE_NAME);
+    if (focused) {
+      await stampFocus(focusPath, windowId, Date.now());
+    } else if (leader) {
+      otherWindowFocusedAt = await readOtherWindowFocus(focusPath, windowId);
+    }
+    reportFocus();
+  } catch (error: any) {
+    logger.warn(`Window coordination failed: ${error.message}`);
+  }
+}
+
+/**
+ * Records whether this window has focus. A focused window stamps the focus
+ * file now and at every heartbeat, so the leader polls as if focused while
+ * the user works in another window.
+ * @param isFocused Whether this window has focus now
+ */
+export function setWindowFocused(isFocused: boolean): void {
+  focused = isFocused;
+  if (isFocused && storageDir) {
+    shareFocus(storageDir);
+  }
+  reportFocus();
+}
+
+/**
+ * Stamps the focus file for this window right away instead of at the next heartbeat.
+ * @param dir Directory holding the focus file
+ */
+async function shareFocus(dir: string): Promise<void> {
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await stampFocus(path.join(dir, FOCUS_FILE_NAME), windowId, Date.now());
+  } catch (error: any) {
+    logger.warn(`Could not share the window focus: ${error.message}`);
+  }
+}
+
+/**
+ * Tells the handlers when some window gained focus or the last one lost it.
+ */
+function reportFocus(): void {
+  if (!handlers) {
+    return;
+  }
+  const isAnyFocused =
+    focused || isFocusCurrent(otherWindowFocusedAt, Date.now());
+  if (isAnyFocused !== anyWindowFocused) {
+    anyWindowFocused = isAnyFocused;
+    handlers.onFocusChange(isAnyFocused);
+  }
+}
+
+/**
+ * Reads the shared state if it changed, and passes it on when another window published it.
+ * @param dir Directory holding the shared state file
+ */
+async function readSharedState(dir: string): Promise<void> {
+  const filePath = path.join(dir, SHARED_STATE_FILE_NAME);
+  let mtime: number;
+  try {
+    mtime = (await fs.promises.stat(filePath)).mtimeMs;
+  } catch {
+    return;
+  }
+  if (mtime === lastSharedStateMtime) {
+    return;
+  }
+  lastSharedStateMtime = mtime;
+
+  try {
+    const state: SharedUsageState = JSON.parse(
+      await fs.promises.readFile(filePath, "utf8"),
+    );
+    if (
+      state.windowId !== windowId &&
+      state.timestamp > (lastSharedState?.timestamp ?? 0)
+    ) {
+      lastSharedState = state;
+      handlers?.onSharedState(state);
+    }
+  } catch (error: any) {
+    logger.warn(`Could not read the shared usage state: ${error.message}`);
+  }
+}
+
+/**
+ * Publishes what this window shows so the other windows can show it too.
+ * @param state The usage, error or warning shown in the status bar
+ */
+export async function publishSharedState(
+  state: Omit<SharedUsageState, "windowId" | "timestamp">,
+): Promise<void> {
+  const dir = storageDir;
+  if (!dir) {
+    return;
+  }
+  const shared: SharedUsageState = {
+    ...state,
+    windowId,
+    timestamp: Date.now(),
+  };
+  lastSharedState = shared;
+
+  const filePath = path.join(dir, SHARED_STATE_FILE_NAME);
+  const tempPath = `${filePath}.${windowId}.tmp`;
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(shared), "utf8");
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error: any) {
+    logger.error(`Failed to publish the shared usage state: ${error.message}`);
+  }
+}
+
+/**
+ * Checks whether this window polls the API and sends notifications.
+ */
+export function isLeader(): boolean {
+  return leader;
+}
+
+/**
+ * Returns the latest state shown in any window, including this one.
+ */
+export function getSharedState(): SharedUsageState | undefined {
+  return lastSharedState;
+}